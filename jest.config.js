@@ -8,6 +8,8 @@ module.exports = {
 	'transform': {
 		'^.+\\.(ts|tsx)$': 'ts-jest'
 	},
+	// the sockets' caches keep their check intervals running after `end`
+	forceExit: true,
 	moduleNameMapper: {
 		'^axios$': require.resolve('axios'),
 	},
@@ -1,6 +1,6 @@
 import { proto } from '../../WAProto'
 import { makeLibSignalRepository } from '../Signal/libsignal'
-import type { AuthenticationState, MediaType, SocketConfig, WAVersion } from '../Types'
+import type { AuthenticationState, MediaType, MessageQueueConfig, ReconnectConfig, SignalDataTypeMap, SocketConfig, WAVersion } from '../Types'
 import { Browsers } from '../Utils'
 import logger from '../Utils/logger'
 import { version } from './baileys-version.json'
@@ -68,6 +68,20 @@ export const DEFAULT_CONNECTION_CONFIG: SocketConfig = {
 	makeSignalRepository: makeLibSignalRepository
 }
 
+export const DEFAULT_RECONNECT_CONFIG: ReconnectConfig = {
+	initialDelayMs: 1_000,
+	maxDelayMs: 60_000,
+	factor: 2,
+	jitter: 0.5
+}
+
+export const DEFAULT_MESSAGE_QUEUE_CONFIG: MessageQueueConfig = {
+	globalRateLimit: { capacity: 20, refillPerSecond: 1 },
+	chatRateLimit: { capacity: 5, refillPerSecond: 0.2 },
+	maxAttempts: 3,
+	retryDelayMs: 5_000
+}
+
 export const MEDIA_PATH_MAP: { [T in MediaType]?: string } = {
 	image: '/mms/image',
 	video: '/mms/video',
@@ -103,13 +117,31 @@ export const MEDIA_HKDF_KEY_MAPPING = {
 
 export const MEDIA_KEYS = Object.keys(MEDIA_PATH_MAP) as MediaType[]
 
+/** every category of key stored in a SignalKeyStore */
+export const SIGNAL_DATA_TYPES: (keyof SignalDataTypeMap)[] = [
+	'pre-key',
+	'session',
+	'sender-key',
+	'sender-key-memory',
+	'app-state-sync-key',
+	'app-state-sync-version'
+]
+
 export const MIN_PREKEY_COUNT = 5
 
 export const INITIAL_PREKEY_COUNT = 30
 
+/** how long to wait for the sender's retry to deliver a message, before asking the phone for it */
+export const PLACEHOLDER_RESEND_DELAY_MS = 5_000
+
 export const DEFAULT_CACHE_TTLS = {
 	SIGNAL_STORE: 5 * 60, // 5 minutes
 	MSG_RETRY: 60 * 60, // 1 hour
 	CALL_OFFER: 5 * 60, // 5 minutes
 	USER_DEVICES: 5 * 60, // 5 minutes
+	MSG_DELIVERY: 24 * 60 * 60, // 1 day
+	POLL: 7 * 24 * 60 * 60, // 1 week
+	PLACEHOLDER_RESEND: 60 * 60, // 1 hour
+	GROUP_METADATA: 60 * 60, // 1 hour
+	STATUS: 24 * 60 * 60, // 1 day
 }
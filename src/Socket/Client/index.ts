@@ -1,2 +1,3 @@
 export * from './types'
-export * from './websocket'
\ No newline at end of file
+export * from './websocket'
+export * from './mock'
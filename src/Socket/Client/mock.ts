@@ -0,0 +1,393 @@
+import { EventEmitter } from 'events'
+import { URL } from 'url'
+import { proto } from '../../../WAProto'
+import { NOISE_MODE, NOISE_WA_HEADER, WA_CERT_DETAILS } from '../../Defaults'
+import { SocketConfig } from '../../Types'
+import { aesDecryptGCM, aesEncryptGCM, Curve, hkdf, promiseTimeout, sha256 } from '../../Utils'
+import { BinaryNode, decodeBinaryNode, encodeBinaryNode } from '../../WABinary'
+import { AbstractSocketClient } from './types'
+
+const generateIV = (counter: number) => {
+	const iv = Buffer.alloc(12)
+	iv.writeUInt32BE(counter, 8)
+	return iv
+}
+
+/** the responder side of the noise XX handshake WA uses */
+const makeNoiseResponder = () => {
+	const ephemeralKeyPair = Curve.generateKeyPair()
+	const staticKeyPair = Curve.generateKeyPair()
+
+	const mode = Buffer.from(NOISE_MODE)
+	let hash = mode.byteLength === 32 ? mode : sha256(mode)
+	let salt = hash
+	let encKey = hash
+	let decKey = hash
+	let readCounter = 0
+	let writeCounter = 0
+	let isFinished = false
+
+	const authenticate = (data: Uint8Array) => {
+		if(!isFinished) {
+			hash = sha256(Buffer.concat([hash, data]))
+		}
+	}
+
+	const encrypt = (plaintext: Uint8Array) => {
+		const result = aesEncryptGCM(plaintext, encKey, generateIV(writeCounter), hash)
+		writeCounter += 1
+		authenticate(result)
+		return result
+	}
+
+	const decrypt = (ciphertext: Uint8Array) => {
+		const iv = generateIV(isFinished ? readCounter : writeCounter)
+		const result = aesDecryptGCM(ciphertext, decKey, iv, hash)
+		if(isFinished) {
+			readCounter += 1
+		} else {
+			writeCounter += 1
+		}
+
+		authenticate(ciphertext)
+		return result
+	}
+
+	const mixIntoKey = (data: Uint8Array) => {
+		const key = hkdf(Buffer.from(data), 64, { salt, info: '' })
+		salt = key.subarray(0, 32)
+		encKey = key.subarray(32)
+		decKey = encKey
+		readCounter = 0
+		writeCounter = 0
+	}
+
+	authenticate(NOISE_WA_HEADER)
+
+	return {
+		encrypt,
+		decrypt,
+		/** @returns the server hello to respond to the client hello with */
+		processClientHello: ({ clientHello }: proto.IHandshakeMessage): proto.IHandshakeMessage => {
+			const clientEphemeral = clientHello!.ephemeral!
+			authenticate(clientEphemeral)
+			authenticate(ephemeralKeyPair.public)
+			mixIntoKey(Curve.sharedKey(ephemeralKeyPair.private, clientEphemeral))
+			const staticEnc = encrypt(staticKeyPair.public)
+			mixIntoKey(Curve.sharedKey(staticKeyPair.private, clientEphemeral))
+
+			const details = proto.CertChain.NoiseCertificate.Details.encode({
+				issuerSerial: WA_CERT_DETAILS.SERIAL,
+				key: staticKeyPair.public
+			}).finish()
+			const certChain = proto.CertChain.encode({ intermediate: { details } }).finish()
+
+			return {
+				serverHello: {
+					ephemeral: ephemeralKeyPair.public,
+					static: staticEnc,
+					payload: encrypt(certChain)
+				}
+			}
+		},
+		/** @returns the noise key & payload the client logged in with */
+		processClientFinish: ({ clientFinish }: proto.IHandshakeMessage) => {
+			const noiseKey = decrypt(clientFinish!.static!)
+			mixIntoKey(Curve.sharedKey(ephemeralKeyPair.private, noiseKey))
+			const payload = proto.ClientPayload.decode(decrypt(clientFinish!.payload!))
+
+			const key = hkdf(Buffer.alloc(0), 64, { salt, info: '' })
+			// the initiator writes with the first half
+			decKey = key.subarray(0, 32)
+			encKey = key.subarray(32)
+			hash = Buffer.alloc(0)
+			readCounter = 0
+			writeCounter = 0
+			isFinished = true
+
+			return { noiseKey, payload }
+		}
+	}
+}
+
+/** how the server end of a connection reaches the client */
+export type MockConnectionSink = {
+	write(frame: Uint8Array): void
+	close(): void
+}
+
+/**
+ * the server end of a mock connection.
+ * Completes the noise handshake with the socket & exchanges binary nodes with it.
+ *
+ * Emits "handshake" with the client payload once the handshake completes,
+ * "node" for every node the socket sends & "close" when the connection ends
+ */
+export class MockServerConnection extends EventEmitter {
+	/** the noise key the client authenticated with */
+	noiseKey: Uint8Array | undefined
+	/** the payload the client logged in or registered with */
+	clientPayload: proto.ClientPayload | undefined
+	/** every node received from the socket, in order */
+	readonly received: BinaryNode[] = []
+
+	protected noise = makeNoiseResponder()
+	protected inBytes = Buffer.alloc(0)
+	protected receivedIntro = false
+	protected handshakeStage: 'hello' | 'finish' | 'done' = 'hello'
+	// frames must be processed in order, decoding is async
+	protected processing = Promise.resolve()
+
+	constructor(protected sink: MockConnectionSink) {
+		super()
+		this.setMaxListeners(0)
+	}
+
+	get isHandshakeComplete() {
+		return this.handshakeStage === 'done'
+	}
+
+	/** encrypts & sends a node to the socket */
+	async sendNode(node: BinaryNode) {
+		if(!this.isHandshakeComplete) {
+			throw new Error('cannot send nodes before the handshake completes')
+		}
+
+		this.sendFrame(this.noise.encrypt(encodeBinaryNode(node)))
+	}
+
+	/** resolves with the next node the socket sends that matches the predicate */
+	waitForNode(predicate: (node: BinaryNode) => boolean = () => true, timeoutMs = 5_000) {
+		let listener: ((node: BinaryNode) => void) | undefined
+		return promiseTimeout<BinaryNode>(timeoutMs, resolve => {
+			listener = (node: BinaryNode) => {
+				if(predicate(node)) {
+					resolve(node)
+				}
+			}
+
+			this.on('node', listener)
+		})
+			// removed on timeout too
+			.finally(() => this.off('node', listener!))
+	}
+
+	/** resolves once the socket completes the noise handshake */
+	waitForHandshake(timeoutMs = 5_000) {
+		if(this.clientPayload) {
+			return Promise.resolve(this.clientPayload)
+		}
+
+		let listener: ((payload: proto.ClientPayload) => void) | undefined
+		return promiseTimeout<proto.ClientPayload>(timeoutMs, resolve => {
+			listener = resolve
+			this.once('handshake', listener)
+		})
+			.finally(() => this.off('handshake', listener!))
+	}
+
+	/** closes the connection from the server side */
+	close() {
+		this.sink.close()
+	}
+
+	/** @internal called by the client with the bytes the socket wrote */
+	receive(data: Uint8Array) {
+		this.processing = this.processing.then(() => this.processBytes(data))
+		return this.processing
+	}
+
+	protected async processBytes(data: Uint8Array) {
+		this.inBytes = Buffer.concat([this.inBytes, data])
+		if(!this.receivedIntro) {
+			if(this.inBytes.length < NOISE_WA_HEADER.length + 3) {
+				return
+			}
+
+			// routing info is prefixed to the intro if the client has any
+			if(this.inBytes.subarray(0, 2).toString() === 'ED') {
+				const routingInfoLength = (this.inBytes.readUInt8(4) << 16) | this.inBytes.readUInt16BE(5)
+				this.inBytes = this.inBytes.subarray(7 + routingInfoLength)
+			}
+
+			this.inBytes = this.inBytes.subarray(NOISE_WA_HEADER.length)
+			this.receivedIntro = true
+		}
+
+		while(this.inBytes.length >= 3) {
+			const size = (this.inBytes.readUInt8() << 16) | this.inBytes.readUInt16BE(1)
+			if(this.inBytes.length < size + 3) {
+				break
+			}
+
+			const frame = this.inBytes.subarray(3, size + 3)
+			this.inBytes = this.inBytes.subarray(size + 3)
+			await this.onFrame(frame)
+		}
+	}
+
+	protected async onFrame(frame: Buffer) {
+		if(this.handshakeStage === 'hello') {
+			const serverHello = this.noise.processClientHello(proto.HandshakeMessage.decode(frame))
+			this.handshakeStage = 'finish'
+			this.sendFrame(proto.HandshakeMessage.encode(serverHello).finish())
+		} else if(this.handshakeStage === 'finish') {
+			const { noiseKey, payload } = this.noise.processClientFinish(proto.HandshakeMessage.decode(frame))
+			this.noiseKey = noiseKey
+			this.clientPayload = payload
+			this.handshakeStage = 'done'
+			this.emit('handshake', payload)
+		} else {
+			const node = await decodeBinaryNode(this.noise.decrypt(frame))
+			this.received.push(node)
+			this.emit('node', node)
+		}
+	}
+
+	protected sendFrame(data: Uint8Array) {
+		const frame = Buffer.alloc(3 + data.byteLength)
+		frame.writeUInt8(data.byteLength >> 16, 0)
+		frame.writeUInt16BE(65535 & data.byteLength, 1)
+		frame.set(data, 3)
+		this.sink.write(frame)
+	}
+}
+
+/**
+ * in-process transport that never touches the network,
+ * every connection is handed to the server end as a `MockServerConnection`
+ */
+export class MockSocketClient extends AbstractSocketClient {
+	/** the server end of this connection, available once connecting starts */
+	server: MockServerConnection | undefined
+
+	protected state: 'idle' | 'connecting' | 'open' | 'closed' = 'idle'
+
+	constructor(url: URL, config: SocketConfig, protected onConnection?: (conn: MockServerConnection) => void) {
+		super(url, config)
+	}
+
+	get isOpen(): boolean {
+		return this.state === 'open'
+	}
+	get isClosed(): boolean {
+		return this.state === 'idle' || this.state === 'closed'
+	}
+	get isClosing(): boolean {
+		return false
+	}
+	get isConnecting(): boolean {
+		return this.state === 'connecting'
+	}
+
+	async connect(): Promise<void> {
+		if(this.state !== 'idle') {
+			return
+		}
+
+		this.state = 'connecting'
+		this.server = new MockServerConnection({
+			write: data => this.deliver(data),
+			close: () => this.close()
+		})
+		this.onConnection?.(this.server)
+		// open asynchronously, like a real socket would
+		setImmediate(() => {
+			if(this.state === 'connecting') {
+				this.state = 'open'
+				this.emit('open')
+			}
+		})
+	}
+
+	async close(): Promise<void> {
+		if(this.state === 'closed') {
+			return
+		}
+
+		this.state = 'closed'
+		this.server?.emit('close')
+		this.emit('close')
+	}
+
+	send(str: string | Uint8Array, cb?: (err?: Error) => void): boolean {
+		if(!this.isOpen) {
+			cb?.(new Error('socket not open'))
+			return false
+		}
+
+		const data = typeof str === 'string' ? Buffer.from(str) : str
+		setImmediate(() => {
+			this.server!.receive(data)
+				.catch(err => this.server!.emit('error', err))
+			cb?.()
+		})
+		return true
+	}
+
+	/** pushes bytes from the server end to the socket */
+	protected deliver(data: Uint8Array) {
+		setImmediate(() => {
+			if(this.isOpen) {
+				this.emit('message', Buffer.from(data))
+			}
+		})
+	}
+}
+
+/**
+ * creates an in-process transport to pass as `SocketConfig.socketClient`,
+ * lets tests play the WA server without a network
+ * @example
+ * const transport = makeMockTransport()
+ * const sock = makeWASocket({ auth, socketClient: transport.SocketClient })
+ * const conn = await transport.waitForConnection()
+ * await conn.waitForHandshake()
+ */
+export const makeMockTransport = () => {
+	const ev = new EventEmitter()
+	const connections: MockServerConnection[] = []
+	// connections not yet handed out by waitForConnection
+	const unclaimed: MockServerConnection[] = []
+
+	const onConnection = (conn: MockServerConnection) => {
+		connections.push(conn)
+		if(!ev.emit('connection', conn)) {
+			unclaimed.push(conn)
+		}
+	}
+
+	class SocketClient extends MockSocketClient {
+		constructor(url: URL, config: SocketConfig) {
+			super(url, config, onConnection)
+		}
+	}
+
+	return {
+		SocketClient,
+		/** every connection made through this transport, in order */
+		connections,
+		onConnection: (listener: (conn: MockServerConnection) => void) => {
+			ev.on('connection', listener)
+			return () => {
+				ev.off('connection', listener)
+			}
+		},
+		/** resolves with the next connection the socket makes, that hasn't been waited for yet */
+		waitForConnection: (timeoutMs = 5_000) => {
+			const conn = unclaimed.shift()
+			if(conn) {
+				return Promise.resolve(conn)
+			}
+
+			let listener: ((conn: MockServerConnection) => void) | undefined
+			return promiseTimeout<MockServerConnection>(timeoutMs, resolve => {
+				listener = resolve
+				ev.once('connection', listener)
+			})
+				.finally(() => ev.off('connection', listener!))
+		}
+	}
+}
+
+export type MockTransport = ReturnType<typeof makeMockTransport>
@@ -0,0 +1,175 @@
+import { GetCatalogOptions, ProductCreate, ProductUpdate, SocketConfig } from '../Types'
+import { parseCatalogNode, parseCollectionsNode, parseOrderDetailsNode, parseProductNode, toProductNode, uploadingNecessaryImagesOfProduct } from '../Utils'
+import { BinaryNode, getBinaryNodeChild, jidNormalizedUser, S_WHATSAPP_NET } from '../WABinary'
+import { makeMessagesRecvSocket } from './messages-recv'
+
+/** size of the product thumbnails WA returns */
+const IMAGE_DIMENSION_NODES: BinaryNode[] = [
+	{ tag: 'width', attrs: { }, content: Buffer.from('100') },
+	{ tag: 'height', attrs: { }, content: Buffer.from('100') }
+]
+
+export const makeBusinessSocket = (config: SocketConfig) => {
+	const sock = makeMessagesRecvSocket(config)
+	const {
+		authState,
+		query,
+		waUploadToServer
+	} = sock
+
+	const catalogQuery = (type: 'get' | 'set', content: BinaryNode[]) => (
+		query({
+			tag: 'iq',
+			attrs: {
+				to: S_WHATSAPP_NET,
+				type,
+				xmlns: 'w:biz:catalog'
+			},
+			content
+		})
+	)
+
+	/**
+	 * fetch a page of a business' catalog
+	 * @returns the products & the cursor of the next page
+	 */
+	const getCatalog = async({ jid, limit, cursor }: GetCatalogOptions = { }) => {
+		jid = jidNormalizedUser(jid || authState.creds.me?.id)
+
+		const queryParamNodes: BinaryNode[] = [
+			{ tag: 'limit', attrs: { }, content: Buffer.from((limit || 10).toString()) },
+			...IMAGE_DIMENSION_NODES
+		]
+		if(cursor) {
+			queryParamNodes.push({ tag: 'after', attrs: { }, content: cursor })
+		}
+
+		const result = await catalogQuery('get', [
+			{
+				tag: 'product_catalog',
+				attrs: {
+					jid,
+					'allow_shop_source': 'true'
+				},
+				content: queryParamNodes
+			}
+		])
+		return parseCatalogNode(result)
+	}
+
+	const getCollections = async(jid?: string, limit = 51) => {
+		jid = jidNormalizedUser(jid || authState.creds.me?.id)
+		const result = await query({
+			tag: 'iq',
+			attrs: {
+				to: S_WHATSAPP_NET,
+				type: 'get',
+				xmlns: 'w:biz:catalog',
+				'smax_id': '35'
+			},
+			content: [
+				{
+					tag: 'collections',
+					attrs: { 'biz_jid': jid },
+					content: [
+						{ tag: 'collection_limit', attrs: { }, content: Buffer.from(limit.toString()) },
+						{ tag: 'item_limit', attrs: { }, content: Buffer.from(limit.toString()) },
+						...IMAGE_DIMENSION_NODES
+					]
+				}
+			]
+		})
+		return parseCollectionsNode(result)
+	}
+
+	/**
+	 * fetch the details of an order placed with us
+	 * @param tokenBase64 the token sent with the order message
+	 */
+	const getOrderDetails = async(orderId: string, tokenBase64: string) => {
+		const result = await query({
+			tag: 'iq',
+			attrs: {
+				to: S_WHATSAPP_NET,
+				type: 'get',
+				xmlns: 'fb:thrift_iq',
+				'smax_id': '5'
+			},
+			content: [
+				{
+					tag: 'order',
+					attrs: {
+						op: 'get',
+						id: orderId
+					},
+					content: [
+						{ tag: 'image_dimensions', attrs: { }, content: IMAGE_DIMENSION_NODES },
+						{ tag: 'token', attrs: { }, content: Buffer.from(tokenBase64) }
+					]
+				}
+			]
+		})
+		return parseOrderDetailsNode(result)
+	}
+
+	const productCreate = async(create: ProductCreate) => {
+		create = await uploadingNecessaryImagesOfProduct(
+			{ ...create, isHidden: !!create.isHidden },
+			waUploadToServer
+		)
+		const result = await catalogQuery('set', [
+			{
+				tag: 'product_catalog_add',
+				attrs: { v: '1' },
+				content: [toProductNode(undefined, create), ...IMAGE_DIMENSION_NODES]
+			}
+		])
+
+		const productNode = getBinaryNodeChild(getBinaryNodeChild(result, 'product_catalog_add'), 'product')
+		return parseProductNode(productNode!)
+	}
+
+	const productUpdate = async(productId: string, update: ProductUpdate) => {
+		update = await uploadingNecessaryImagesOfProduct(update, waUploadToServer)
+		const result = await catalogQuery('set', [
+			{
+				tag: 'product_catalog_edit',
+				attrs: { v: '1' },
+				content: [toProductNode(productId, update), ...IMAGE_DIMENSION_NODES]
+			}
+		])
+
+		const productNode = getBinaryNodeChild(getBinaryNodeChild(result, 'product_catalog_edit'), 'product')
+		return parseProductNode(productNode!)
+	}
+
+	/** @returns the number of products deleted */
+	const productDelete = async(productIds: string[]) => {
+		const result = await catalogQuery('set', [
+			{
+				tag: 'product_catalog_delete',
+				attrs: { v: '1' },
+				content: productIds.map(id => ({
+					tag: 'product',
+					attrs: { },
+					content: [
+						{ tag: 'id', attrs: { }, content: Buffer.from(id) }
+					]
+				}))
+			}
+		])
+
+		const deleteNode = getBinaryNodeChild(result, 'product_catalog_delete')
+		return { deleted: +(deleteNode?.attrs.deleted_count || 0) }
+	}
+
+	return {
+		...sock,
+		getCatalog,
+		getCollections,
+		getOrderDetails,
+		productCreate,
+		productUpdate,
+		productDelete
+	}
+}
@@ -1,12 +1,13 @@
 
+import NodeCache from '@cacheable/node-cache'
 import { Boom } from '@hapi/boom'
 import { proto } from '../../WAProto'
-import { PROCESSABLE_HISTORY_TYPES } from '../Defaults'
-import { ALL_WA_PATCH_NAMES, BotListInfo, ChatModification, ChatMutation, LTHashState, MessageUpsertType, PresenceData, SocketConfig, WABusinessHoursConfig, WABusinessProfile, WAMediaUpload, WAMessage, WAPatchCreate, WAPatchName, WAPresence, WAPrivacyCallValue, WAPrivacyGroupAddValue, WAPrivacyMessagesValue, WAPrivacyOnlineValue, WAPrivacyValue, WAReadReceiptsValue } from '../Types'
-import { chatModificationToAppPatch, ChatMutationMap, decodePatches, decodeSyncdSnapshot, encodeSyncdPatch, extractSyncdPatches, generateProfilePicture, getHistoryMsg, newLTHashState, processSyncAction } from '../Utils'
+import { DEFAULT_CACHE_TTLS, PROCESSABLE_HISTORY_TYPES } from '../Defaults'
+import { ALL_WA_PATCH_NAMES, BotListInfo, BroadcastList, ChatModification, ChatMutation, Label, LabelActionBody, LTHashState, MessageUpsertType, PresenceData, SocketConfig, WABusinessHoursConfig, WABusinessProfile, WABusinessProfileUpdate, WAMediaUpload, WAMessage, WAPatchCreate, WAPatchName, WAPresence, WAPrivacyCallValue, WAPrivacyGroupAddValue, WAPrivacyMessagesValue, WAPrivacyOnlineValue, WAPrivacyValue, WAReadReceiptsValue, WAStatusPrivacy, WAStatusPrivacyType } from '../Types'
+import { chatModificationToAppPatch, ChatMutationMap, decodePatches, decodeSyncdSnapshot, encodeSyncdPatch, extractSyncdPatches, generateProfilePicture, getHistoryMsg, newLTHashState, processSyncAction, promiseTimeout, toBusinessHoursConfig, unixTimestampSeconds } from '../Utils'
 import { makeMutex } from '../Utils/make-mutex'
 import processMessage from '../Utils/process-message'
-import { BinaryNode, getBinaryNodeChild, getBinaryNodeChildren, jidNormalizedUser, reduceBinaryNodeToDictionary, S_WHATSAPP_NET } from '../WABinary'
+import { BinaryNode, getBinaryNodeChild, getBinaryNodeChildren, jidEncode, jidNormalizedUser, reduceBinaryNodeToDictionary, S_WHATSAPP_NET } from '../WABinary'
 import { USyncQuery, USyncUser } from '../WAUSync'
 import { makeUSyncSocket } from './usync'
 const MAX_SYNC_ATTEMPTS = 2
@@ -19,6 +20,7 @@ export const makeChatsSocket = (config: SocketConfig) => {
 		appStateMacVerification,
 		shouldIgnoreJid,
 		shouldSyncHistoryMessage,
+		getMessage,
 	} = config
 	const sock = makeUSyncSocket(config)
 	const {
@@ -37,6 +39,22 @@ export const makeChatsSocket = (config: SocketConfig) => {
 	/** this mutex ensures that the notifications (receipts, messages etc.) are processed in order */
 	const processingMutex = makeMutex()
 
+	const pollCache = config.pollCache || new NodeCache({
+		stdTTL: DEFAULT_CACHE_TTLS.POLL, // 1 week
+		useClones: false
+	})
+
+	const placeholderResendCache = config.placeholderResendCache || new NodeCache({
+		stdTTL: DEFAULT_CACHE_TTLS.PLACEHOLDER_RESEND, // 1 hour
+		useClones: false
+	})
+
+	/** resolves the callers waiting on the history the phone sends in reply to their request, by request ID */
+	const historyRequests = new Map<string, (messages: WAMessage[]) => void>()
+
+	/** labels seen in app state syncs, by ID */
+	const labels = new Map<string, Label>()
+	let hasSyncedLabels = false
 
 	/** helper function to fetch the given app state sync key */
 	const getAppStateSyncKey = async(keyId: string) => {
@@ -63,6 +81,30 @@ export const makeChatsSocket = (config: SocketConfig) => {
 		return privacySettings
 	}
 
+	/** @returns the status privacy settings of the account, the default one first */
+	const fetchStatusPrivacy = async() => {
+		const result = await query({
+			tag: 'iq',
+			attrs: {
+				xmlns: 'status',
+				to: S_WHATSAPP_NET,
+				type: 'get'
+			},
+			content: [
+				{ tag: 'privacy', attrs: { } }
+			]
+		})
+
+		const lists = getBinaryNodeChildren(getBinaryNodeChild(result, 'privacy'), 'list')
+		return lists
+			.map<WAStatusPrivacy>(list => ({
+				type: list.attrs.type as WAStatusPrivacyType,
+				isDefault: list.attrs.default === 'true',
+				list: getBinaryNodeChildren(list, 'user').map(({ attrs }) => attrs.jid)
+			}))
+			.sort((a, b) => +b.isDefault - +a.isDefault)
+	}
+
 	/** helper function to run a privacy IQ query */
 	const privacyQuery = async(name: string, value: string) => {
 		await query({
@@ -345,19 +387,18 @@ export const makeChatsSocket = (config: SocketConfig) => {
 		if(profiles) {
 			const address = getBinaryNodeChild(profiles, 'address')
 			const description = getBinaryNodeChild(profiles, 'description')
-			const website = getBinaryNodeChild(profiles, 'website')
+			const websites = getBinaryNodeChildren(profiles, 'website')
 			const email = getBinaryNodeChild(profiles, 'email')
 			const category = getBinaryNodeChild(getBinaryNodeChild(profiles, 'categories'), 'category')
 			const businessHours = getBinaryNodeChild(profiles, 'business_hours')
 			const businessHoursConfig = businessHours
 				? getBinaryNodeChildren(businessHours, 'business_hours_config')
 				: undefined
-			const websiteStr = website?.content?.toString()
 			return {
 				wid: profiles.attrs?.jid,
 				address: address?.content?.toString(),
 				description: description?.content?.toString() || '',
-				website: websiteStr ? [websiteStr] : [],
+				website: websites.map(website => website.content!.toString()),
 				email: email?.content?.toString(),
 				category: category?.content?.toString(),
 				'business_hours': {
@@ -368,6 +409,120 @@ export const makeChatsSocket = (config: SocketConfig) => {
 		}
 	}
 
+	/** update our own business profile */
+	const updateBusinessProfile = async({ description, email, websites, address, categoryId, hours }: WABusinessProfileUpdate) => {
+		const content: BinaryNode[] = []
+		for(const [tag, value] of Object.entries({ description, email, address })) {
+			if(typeof value !== 'undefined') {
+				content.push({ tag, attrs: { }, content: Buffer.from(value) })
+			}
+		}
+
+		for(const website of websites || []) {
+			content.push({ tag: 'website', attrs: { }, content: Buffer.from(website) })
+		}
+
+		if(categoryId) {
+			content.push({
+				tag: 'categories',
+				attrs: { },
+				content: [{ tag: 'category', attrs: { id: categoryId } }]
+			})
+		}
+
+		if(hours) {
+			content.push({
+				tag: 'business_hours',
+				attrs: { timezone: hours.timezone },
+				content: toBusinessHoursConfig(hours).map(({ open_time: open, close_time: close, ...attrs }) => ({
+					tag: 'business_hours_config',
+					attrs: {
+						...attrs,
+						...(typeof open !== 'undefined' ? { 'open_time': open.toString(), 'close_time': close!.toString() } : { })
+					}
+				}))
+			})
+		}
+
+		await query({
+			tag: 'iq',
+			attrs: {
+				to: S_WHATSAPP_NET,
+				xmlns: 'w:biz',
+				type: 'set'
+			},
+			content: [
+				{
+					tag: 'business_profile',
+					attrs: { v: '3', 'mutation_type': 'delta' },
+					content
+				}
+			]
+		})
+	}
+
+	/**
+	 * broadcast lists aren't stored on WA's servers for linked devices,
+	 * so they're kept in the creds & persisted along with them
+	 */
+	const saveBroadcastList = (id: string, list: BroadcastList | undefined) => {
+		const broadcastLists = { ...authState.creds.broadcastLists }
+		if(list) {
+			broadcastLists[id] = list
+		} else {
+			delete broadcastLists[id]
+		}
+
+		ev.emit('creds.update', { broadcastLists })
+	}
+
+	/**
+	 * fetch a broadcast list & its recipients.
+	 * Only lists created from this auth state are known, lists made on the phone can't be fetched
+	 */
+	const broadcastListMetadata = (jid: string) => {
+		const list = authState.creds.broadcastLists?.[jid]
+		if(!list) {
+			throw new Boom(
+				'Broadcast list not found, only lists created with broadcastListCreate are stored locally',
+				{ statusCode: 404, data: { jid } }
+			)
+		}
+
+		return list
+	}
+
+	/** create a broadcast list, it's only stored in the creds -- the phone & other devices won't see it */
+	const broadcastListCreate = (name: string, recipients: string[]) => {
+		const list: BroadcastList = {
+			id: jidEncode(Date.now().toString(), 'broadcast'),
+			name,
+			recipients: Array.from(new Set(recipients.map(jidNormalizedUser))),
+			creation: unixTimestampSeconds()
+		}
+		saveBroadcastList(list.id, list)
+		return list
+	}
+
+	const broadcastListUpdateName = (jid: string, name: string) => {
+		saveBroadcastList(jid, { ...broadcastListMetadata(jid), name })
+	}
+
+	const broadcastListParticipantsUpdate = (jid: string, participants: string[], action: 'add' | 'remove') => {
+		const list = broadcastListMetadata(jid)
+		const jids = participants.map(jidNormalizedUser)
+		const recipients = action === 'add'
+			? Array.from(new Set([...list.recipients, ...jids]))
+			: list.recipients.filter(recipient => !jids.includes(recipient))
+		saveBroadcastList(jid, { ...list, recipients })
+		return recipients
+	}
+
+	const broadcastListDelete = (jid: string) => {
+		broadcastListMetadata(jid)
+		saveBroadcastList(jid, undefined)
+	}
+
 	const cleanDirtyBits = async(type: 'account_sync' | 'groups', fromTimestamp?: number | string) => {
 		logger.info({ fromTimestamp }, 'clean dirty bits ' + type)
 		await sendNode({
@@ -801,6 +956,51 @@ export const makeChatsSocket = (config: SocketConfig) => {
 		}, jid)
 	}
 
+	/** creates or edits a label, pass `deleted: true` to delete it */
+	const addLabel = (label: LabelActionBody) => {
+		// labels belong to the account, not a chat
+		return chatModify({ addLabel: label }, '')
+	}
+
+	const addChatLabel = (jid: string, labelId: string) => {
+		return chatModify({ addChatLabel: { labelId } }, jid)
+	}
+
+	const removeChatLabel = (jid: string, labelId: string) => {
+		return chatModify({ removeChatLabel: { labelId } }, jid)
+	}
+
+	const addMessageLabel = (jid: string, messageId: string, labelId: string) => {
+		return chatModify({ addMessageLabel: { messageId, labelId } }, jid)
+	}
+
+	const removeMessageLabel = (jid: string, messageId: string, labelId: string) => {
+		return chatModify({ removeMessageLabel: { messageId, labelId } }, jid)
+	}
+
+	/**
+	 * waits for the phone to send the history requested with the given ID,
+	 * start waiting before the request is sent so the reply can't be missed
+	 */
+	const waitForRequestedHistory = (requestId: string, timeoutMs?: number) => (
+		promiseTimeout<WAMessage[]>(timeoutMs, resolve => {
+			historyRequests.set(requestId, resolve)
+		})
+			.finally(() => historyRequests.delete(requestId))
+	)
+
+	/**
+	 * get the labels seen in app state syncs since the socket started.
+	 * Only the initial sync after pairing carries every label, check `hasSyncedLabels`
+	 * & keep the `labels.edit` events in a store to have them all on a restored session
+	 */
+	const getLabels = () => {
+		if(!hasSyncedLabels) {
+			logger.debug('labels have not been fully synced, list may be incomplete')
+		}
+
+		return Array.from(labels.values()).filter(label => !label.deleted)
+	}
 
 	/**
 	 * queries need to be fired on connection open
@@ -861,8 +1061,12 @@ export const makeChatsSocket = (config: SocketConfig) => {
 					ev,
 					creds: authState.creds,
 					keyStore: authState.keys,
+					pollCache,
+					placeholderResendCache,
+					getMessage,
 					logger,
 					options: config.options,
+					onRequestedHistory: (requestId, messages) => historyRequests.get(requestId)?.(messages)
 				}
 			)
 		])
@@ -879,6 +1083,7 @@ export const makeChatsSocket = (config: SocketConfig) => {
 			if(!authState.creds.accountSyncCounter) {
 				logger.info('doing initial app state sync')
 				await resyncAppState(ALL_WA_PATCH_NAMES, true)
+				hasSyncedLabels = true
 
 				const accountSyncCounter = (authState.creds.accountSyncCounter || 0) + 1
 				ev.emit('creds.update', { accountSyncCounter })
@@ -919,6 +1124,10 @@ export const makeChatsSocket = (config: SocketConfig) => {
 		}
 	})
 
+	ev.on('labels.edit', label => {
+		labels.set(label.id, label)
+	})
+
 	ev.on('connection.update', ({ connection, receivedPendingNotifications }) => {
 		if(connection === 'open') {
 			if(fireInitQueries) {
@@ -948,7 +1157,10 @@ export const makeChatsSocket = (config: SocketConfig) => {
 		...sock,
 		getBotListV2,
 		processingMutex,
+		pollCache,
+		placeholderResendCache,
 		fetchPrivacySettings,
+		fetchStatusPrivacy,
 		upsertMessage,
 		appPatch,
 		sendPresenceUpdate,
@@ -973,9 +1185,26 @@ export const makeChatsSocket = (config: SocketConfig) => {
 		updateGroupsAddPrivacy,
 		updateDefaultDisappearingMode,
 		getBusinessProfile,
+		updateBusinessProfile,
+		broadcastListCreate,
+		broadcastListUpdateName,
+		broadcastListParticipantsUpdate,
+		broadcastListDelete,
+		broadcastListMetadata,
+		/** @returns the broadcast lists created from this auth state, not every list on the account */
+		broadcastListFetchAll: () => Object.values(authState.creds.broadcastLists || { }),
 		resyncAppState,
 		chatModify,
 		cleanDirtyBits,
-		star
+		star,
+		addLabel,
+		addChatLabel,
+		removeChatLabel,
+		addMessageLabel,
+		removeMessageLabel,
+		getLabels,
+		waitForRequestedHistory,
+		/** has the initial app state sync, with every label on the account, run on this socket */
+		hasSyncedLabels: () => hasSyncedLabels
 	}
 }
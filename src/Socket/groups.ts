@@ -1,13 +1,20 @@
+import NodeCache from '@cacheable/node-cache'
 import { proto } from '../../WAProto'
-import { GroupMetadata, GroupParticipant, ParticipantAction, SocketConfig, WAMessageKey, WAMessageStubType } from '../Types'
+import { DEFAULT_CACHE_TTLS } from '../Defaults'
+import { CommunityLinkedGroup, GroupMetadata, GroupParticipant, ParticipantAction, SocketConfig, WAMessageKey, WAMessageStubType } from '../Types'
 import { generateMessageID, unixTimestampSeconds } from '../Utils'
-import { BinaryNode, getBinaryNodeChild, getBinaryNodeChildren, getBinaryNodeChildString, jidEncode, jidNormalizedUser } from '../WABinary'
+import { areJidsSameUser, BinaryNode, getBinaryNodeChild, getBinaryNodeChildren, getBinaryNodeChildString, jidEncode, jidNormalizedUser } from '../WABinary'
 import { makeChatsSocket } from './chats'
 
 export const makeGroupsSocket = (config: SocketConfig) => {
 	const sock = makeChatsSocket(config)
 	const { authState, ev, query, upsertMessage } = sock
 
+	const groupMetadataCache = config.groupMetadataCache || new NodeCache({
+		stdTTL: DEFAULT_CACHE_TTLS.GROUP_METADATA, // 1 hour
+		useClones: false
+	})
+
 	const groupQuery = async(jid: string, type: 'get' | 'set', content: BinaryNode[]) => (
 		query({
 			tag: 'iq',
@@ -26,7 +33,9 @@ export const makeGroupsSocket = (config: SocketConfig) => {
 			'get',
 			[ { tag: 'query', attrs: { request: 'interactive' } } ]
 		)
-		return extractGroupMetadata(result)
+		const metadata = extractGroupMetadata(result)
+		groupMetadataCache.set(metadata.id, metadata)
+		return metadata
 	}
 
 
@@ -60,6 +69,7 @@ export const makeGroupsSocket = (config: SocketConfig) => {
 					content: [groupNode]
 				})
 				data[meta.id] = meta
+				groupMetadataCache.set(meta.id, meta)
 			}
 		}
 
@@ -68,6 +78,84 @@ export const makeGroupsSocket = (config: SocketConfig) => {
 		return data
 	}
 
+	/**
+	 * list the groups linked to a community
+	 * @param jid the community, or any group linked to it
+	 */
+	const communityFetchLinkedGroups = async(jid: string) => {
+		// only needed to find the community a linked group belongs to
+		const metadata = (await config.cachedGroupMetadata?.(jid))
+			|| groupMetadataCache.get<GroupMetadata>(jid)
+			|| await groupMetadata(jid)
+		const communityJid = metadata.linkedParent || jid
+		const result = await groupQuery(communityJid, 'get', [{ tag: 'sub_groups', attrs: { } }])
+		const groupNodes = getBinaryNodeChildren(getBinaryNodeChild(result, 'sub_groups'), 'group')
+		const linkedGroups = groupNodes.map<CommunityLinkedGroup>(node => ({
+			id: node.attrs.id.includes('@') ? node.attrs.id : jidEncode(node.attrs.id, 'g.us'),
+			subject: node.attrs.subject || '',
+			creation: node.attrs.creation ? +node.attrs.creation : undefined,
+			owner: node.attrs.creator ? jidNormalizedUser(node.attrs.creator) : undefined,
+			size: node.attrs.size ? +node.attrs.size : undefined,
+			isCommunityAnnounce: !!getBinaryNodeChild(node, 'default_sub_group')
+		}))
+
+		return { communityJid, linkedGroups }
+	}
+
+	// keep the cached metadata in sync with the changes WA notifies us of
+	ev.on('groups.upsert', groups => {
+		for(const group of groups) {
+			groupMetadataCache.set(group.id, group)
+		}
+	})
+
+	ev.on('groups.update', updates => {
+		for(const update of updates) {
+			const metadata = groupMetadataCache.get<GroupMetadata>(update.id!)
+			if(metadata) {
+				groupMetadataCache.set(update.id!, { ...metadata, ...update })
+			}
+		}
+	})
+
+	ev.on('group-participants.update', ({ id, participants, action }) => {
+		const metadata = groupMetadataCache.get<GroupMetadata>(id)
+		if(!metadata) {
+			return
+		}
+
+		const { me } = authState.creds
+		const includesMe = participants.some(jid => areJidsSameUser(jid, me?.id) || areJidsSameUser(jid, me?.lid))
+		// we can no longer see the group, or can't tell what the participants changed to
+		if((action === 'remove' && includesMe) || action === 'modify') {
+			groupMetadataCache.del(id)
+			return
+		}
+
+		let updated = metadata.participants
+		switch (action) {
+		case 'add':
+			updated = [
+				...updated.filter(p => !participants.includes(p.id)),
+				...participants.map(id => ({ id, admin: null }))
+			]
+			break
+		case 'remove':
+			updated = updated.filter(p => !participants.includes(p.id))
+			break
+		case 'promote':
+		case 'demote':
+			updated = updated.map(p => (
+				participants.includes(p.id)
+					? { ...p, admin: action === 'promote' ? 'admin' : null }
+					: p
+			))
+			break
+		}
+
+		groupMetadataCache.set(id, { ...metadata, participants: updated, size: updated.length })
+	})
+
 	sock.ws.on('CB:ib,,dirty', async(node: BinaryNode) => {
 		const { attrs } = getBinaryNodeChild(node, 'dirty')!
 		if(attrs.type !== 'groups') {
@@ -80,6 +168,7 @@ export const makeGroupsSocket = (config: SocketConfig) => {
 
 	return {
 		...sock,
+		groupMetadataCache,
 		groupMetadata,
 		groupCreate: async(subject: string, participants: string[]) => {
 			const key = generateMessageID()
@@ -100,7 +189,9 @@ export const makeGroupsSocket = (config: SocketConfig) => {
 					}
 				]
 			)
-			return extractGroupMetadata(result)
+			const metadata = extractGroupMetadata(result)
+			groupMetadataCache.set(metadata.id, metadata)
+			return metadata
 		},
 		groupLeave: async(id: string) => {
 			await groupQuery(
@@ -116,6 +207,7 @@ export const makeGroupsSocket = (config: SocketConfig) => {
 					}
 				]
 			)
+			groupMetadataCache.del(id)
 		},
 		groupUpdateSubject: async(jid: string, subject: string) => {
 			await groupQuery(
@@ -319,7 +411,99 @@ export const makeGroupsSocket = (config: SocketConfig) => {
 		groupJoinApprovalMode: async(jid: string, mode: 'on' | 'off') => {
 			await groupQuery(jid, 'set', [ { tag: 'membership_approval_mode', attrs: { }, content: [ { tag: 'group_join', attrs: { state: mode } } ] } ])
 		},
-		groupFetchAllParticipating
+		groupFetchAllParticipating,
+		/**
+		 * create a community, along with its announcement group
+		 * @returns the metadata of the community
+		 */
+		communityCreate: async(subject: string, description?: string) => {
+			const result = await groupQuery(
+				'@g.us',
+				'set',
+				[
+					{
+						tag: 'create',
+						attrs: { subject },
+						content: [
+							{
+								tag: 'description',
+								attrs: { id: generateMessageID() },
+								content: [
+									{ tag: 'body', attrs: { }, content: Buffer.from(description || '', 'utf-8') }
+								]
+							},
+							{ tag: 'parent', attrs: { 'default_membership_approval_mode': 'request_required' } },
+							{ tag: 'allow_non_admin_sub_group_creation', attrs: { } },
+							{ tag: 'create_general_chat', attrs: { } }
+						]
+					}
+				]
+			)
+			const metadata = extractGroupMetadata(result)
+			groupMetadataCache.set(metadata.id, metadata)
+			return metadata
+		},
+		/** link an existing group to a community we're an admin of */
+		communityLinkGroup: async(communityJid: string, groupJid: string) => {
+			await groupQuery(
+				communityJid,
+				'set',
+				[
+					{
+						tag: 'links',
+						attrs: { },
+						content: [
+							{
+								tag: 'link',
+								attrs: { 'link_type': 'sub_group' },
+								content: [{ tag: 'group', attrs: { jid: groupJid } }]
+							}
+						]
+					}
+				]
+			)
+		},
+		communityUnlinkGroup: async(communityJid: string, groupJid: string) => {
+			await groupQuery(
+				communityJid,
+				'set',
+				[
+					{
+						tag: 'unlink',
+						attrs: { 'unlink_type': 'sub_group' },
+						content: [{ tag: 'group', attrs: { jid: groupJid } }]
+					}
+				]
+			)
+		},
+		communityFetchLinkedGroups,
+		/** @returns the community's announcement group, if it has one */
+		communityFetchAnnouncementGroup: async(jid: string) => {
+			const { linkedGroups } = await communityFetchLinkedGroups(jid)
+			return linkedGroups.find(group => group.isCommunityAnnounce)
+		},
+		/** leave a community & all the groups linked to it */
+		communityLeave: async(communityJid: string) => {
+			// can't be listed once we've left
+			const { linkedGroups } = await communityFetchLinkedGroups(communityJid)
+			await groupQuery(
+				'@g.us',
+				'set',
+				[
+					{
+						tag: 'leave',
+						attrs: { },
+						content: [
+							{ tag: 'linked_groups', attrs: { 'parent_group_jid': communityJid } }
+						]
+					}
+				]
+			)
+			groupMetadataCache.del(communityJid)
+			for(const { id } of linkedGroups) {
+				groupMetadataCache.del(id)
+			}
+		}
 	}
 }
 
@@ -353,6 +537,7 @@ export const extractGroupMetadata = (result: BinaryNode) => {
 		announce: !!getBinaryNodeChild(group, 'announcement'),
 		isCommunity: !!getBinaryNodeChild(group, 'parent'),
 		isCommunityAnnounce: !!getBinaryNodeChild(group, 'default_sub_group'),
+		allowNonAdminSubGroupCreation: !!getBinaryNodeChild(group, 'allow_non_admin_sub_group_creation'),
 		joinApprovalMode: !!getBinaryNodeChild(group, 'membership_approval_mode'),
 		memberAddMode,
 		participants: getBinaryNodeChildren(group, 'participant').map(
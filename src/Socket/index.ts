@@ -1,11 +1,11 @@
 import { DEFAULT_CONNECTION_CONFIG } from '../Defaults'
 import { UserFacingSocketConfig } from '../Types'
-import { makeMessagesRecvSocket } from './messages-recv'
+import { makeBusinessSocket } from './business'
 
 
 // export the last socket layer
 const makeWASocket = (config: UserFacingSocketConfig) => (
-	makeMessagesRecvSocket({
+	makeBusinessSocket({
 		...DEFAULT_CONNECTION_CONFIG,
 		...config
 	})
@@ -0,0 +1,343 @@
+import { Boom } from '@hapi/boom'
+import { proto } from '../../WAProto'
+import { DEFAULT_CONNECTION_CONFIG, DEFAULT_MESSAGE_QUEUE_CONFIG } from '../Defaults'
+import {
+	AnyMessageContent,
+	BaileysEventEmitter,
+	BaileysEventMap,
+	DisconnectReason,
+	MessageQueueConfig,
+	MessageQueuePriority,
+	MessageRelayOptions,
+	MiscMessageGenerationOptions,
+	QueuedMessage,
+	RateLimit
+} from '../Types'
+import { generateMessageID, makeInMemoryMessageQueueStore } from '../Utils'
+import makeWASocket from '.'
+
+type WASocket = ReturnType<typeof makeWASocket>
+
+/** the parts of the socket the queue sends with */
+export type MessageQueueSocket = Pick<WASocket, 'ev' | 'sendMessage' | 'relayMessage'>
+
+/** a supervisor, its socket is replaced on every reconnect */
+export type MessageQueueSupervisor = { ev: BaileysEventEmitter, readonly socket: MessageQueueSocket }
+
+type EnqueueOptions = { priority?: MessageQueuePriority }
+
+const PRIORITIES: MessageQueuePriority[] = ['high', 'normal', 'low']
+
+/** the message may have reached WA, it must be re-sent with the same ID once reconnected */
+const CONNECTION_ERROR_CODES = new Set<number>([
+	DisconnectReason.connectionClosed,
+	DisconnectReason.connectionLost,
+	DisconnectReason.restartRequired
+])
+
+const makeTokenBucket = ({ capacity, refillPerSecond }: RateLimit) => {
+	let tokens = capacity
+	let updatedAt = Date.now()
+
+	const refill = (now: number) => {
+		tokens = Math.min(capacity, tokens + (now - updatedAt) * refillPerSecond / 1000)
+		updatedAt = now
+	}
+
+	return {
+		/** @returns 0 if a message can be sent right away */
+		msUntilAvailable: (now: number) => {
+			refill(now)
+			return tokens >= 1 ? 0 : Math.ceil((1 - tokens) * 1000 / refillPerSecond)
+		},
+		take: () => {
+			tokens -= 1
+		},
+		isFull: (now: number) => {
+			refill(now)
+			return tokens >= capacity
+		}
+	}
+}
+
+/**
+ * queues outgoing messages & sends them at a rate WA won't flag,
+ * with a limit on both the total & per chat rate. Higher priority messages jump the queue.
+ *
+ * Pending messages are persisted to the store, messages left over from a previous run are
+ * sent once the socket connects. A message interrupted by a disconnect is re-sent with the same ID,
+ * so the recipient never receives it twice
+ *
+ * The queue sends once the connection opens, so create it along with the socket.
+ * Pass the supervisor of a socket to keep sending after it reconnects
+ * @example
+ * const supervisor = makeSupervisedSocket({ auth })
+ * const queue = makeMessageQueue(supervisor, { store: await makeFileMessageQueueStore('queue') })
+ * await queue.enqueue(jid, { text: 'hello' }, { priority: 'high' })
+ */
+export const makeMessageQueue = (source: MessageQueueSocket | MessageQueueSupervisor, config: Partial<MessageQueueConfig> = { }) => {
+	const {
+		store = makeInMemoryMessageQueueStore(),
+		globalRateLimit,
+		chatRateLimit,
+		maxAttempts,
+		retryDelayMs,
+		logger = DEFAULT_CONNECTION_CONFIG.logger.child({ class: 'message-queue' }),
+		onSent,
+		onFailed
+	} = { ...DEFAULT_MESSAGE_QUEUE_CONFIG, ...config }
+
+	const lanes: { [P in MessageQueuePriority]: QueuedMessage[] } = { high: [], normal: [], low: [] }
+	const globalBucket = makeTokenBucket(globalRateLimit)
+	const chatBuckets = new Map<string, ReturnType<typeof makeTokenBucket>>()
+	// in memory only, messages loaded after a restart are retried right away
+	const retryAt = new Map<string, number>()
+
+	const { ev } = source
+	const getSocket = () => ('socket' in source ? source.socket : source)
+
+	// the socket is only usable once logged in, not as soon as its websocket opens
+	let isOnline = false
+	let isSending = false
+	let isClosed = false
+	let drainTimeout: NodeJS.Timeout | undefined
+
+	const scheduleDrain = (delayMs = 0) => {
+		clearTimeout(drainTimeout)
+		drainTimeout = setTimeout(drain, delayMs)
+	}
+
+	const getChatBucket = (jid: string) => {
+		let bucket = chatBuckets.get(jid)
+		if(!bucket) {
+			bucket = makeTokenBucket(chatRateLimit)
+			chatBuckets.set(jid, bucket)
+		}
+
+		return bucket
+	}
+
+	/** @returns the next message allowed to go out, or how long to wait for one */
+	const pickNext = (now: number): { item: QueuedMessage } | { waitMs: number } => {
+		const globalWait = globalBucket.msUntilAvailable(now)
+		if(globalWait) {
+			return { waitMs: globalWait }
+		}
+
+		let waitMs = Infinity
+		for(const priority of PRIORITIES) {
+			// keeps messages to a chat in order, within a lane
+			const blockedChats = new Set<string>()
+			for(const item of lanes[priority]) {
+				if(blockedChats.has(item.jid)) {
+					continue
+				}
+
+				const itemWait = Math.max(
+					(retryAt.get(item.id) || 0) - now,
+					getChatBucket(item.jid).msUntilAvailable(now)
+				)
+				if(itemWait <= 0) {
+					return { item }
+				}
+
+				blockedChats.add(item.jid)
+				waitMs = Math.min(waitMs, itemWait)
+			}
+		}
+
+		return { waitMs }
+	}
+
+	const removeFromLane = (item: QueuedMessage) => {
+		const lane = lanes[item.priority]
+		const idx = lane.indexOf(item)
+		if(idx >= 0) {
+			lane.splice(idx, 1)
+		}
+
+		retryAt.delete(item.id)
+	}
+
+	const send = async(item: QueuedMessage) => {
+		if(item.type === 'send') {
+			return getSocket().sendMessage(item.jid, item.content, { ...item.options, messageId: item.id })
+		}
+
+		await getSocket().relayMessage(item.jid, item.message, { ...item.options, messageId: item.id })
+	}
+
+	const onSendError = async(item: QueuedMessage, error: Error, now: number) => {
+		const statusCode = (error as Boom).output?.statusCode
+		if(CONNECTION_ERROR_CODES.has(statusCode)) {
+			logger.debug({ id: item.id, statusCode }, 'connection dropped while sending, will re-send')
+			retryAt.set(item.id, now + retryDelayMs)
+			return
+		}
+
+		item.attempts += 1
+		if(item.attempts >= maxAttempts) {
+			logger.warn({ id: item.id, jid: item.jid, trace: error.stack }, 'dropping message after failed attempts')
+			removeFromLane(item)
+			await store.remove(item.id)
+			onFailed?.(item, error)
+		} else {
+			logger.info({ id: item.id, attempts: item.attempts, trace: error.stack }, 'failed to send message, will retry')
+			retryAt.set(item.id, now + retryDelayMs)
+			await store.save(item)
+		}
+	}
+
+	const sendNext = async() => {
+		const now = Date.now()
+		const next = pickNext(now)
+		if(!('item' in next)) {
+			if(next.waitMs !== Infinity) {
+				scheduleDrain(next.waitMs)
+			}
+
+			return
+		}
+
+		const { item } = next
+		globalBucket.take()
+		getChatBucket(item.jid).take()
+
+		let msg: Awaited<ReturnType<typeof send>>
+		try {
+			msg = await send(item)
+		} catch(error) {
+			await onSendError(item, error, now)
+			scheduleDrain()
+			return
+		}
+
+		removeFromLane(item)
+		await store.remove(item.id)
+		logger.debug({ id: item.id, jid: item.jid }, 'sent queued message')
+		onSent?.(item, msg)
+
+		// buckets that have refilled hold no state, no need to keep them around
+		for(const [jid, bucket] of chatBuckets) {
+			if(bucket.isFull(now)) {
+				chatBuckets.delete(jid)
+			}
+		}
+
+		scheduleDrain()
+	}
+
+	const drain = async() => {
+		drainTimeout = undefined
+		if(!isOnline || isSending || isClosed) {
+			return
+		}
+
+		isSending = true
+		try {
+			await sendNext()
+		} catch(error) {
+			logger.error({ trace: error.stack }, 'error in draining message queue')
+			scheduleDrain(retryDelayMs)
+		} finally {
+			isSending = false
+		}
+	}
+
+	const push = async(item: QueuedMessage) => {
+		await loaded
+		await store.save(item)
+		lanes[item.priority].push(item)
+		scheduleDrain()
+		return item
+	}
+
+	const onConnectionUpdate = ({ connection }: BaileysEventMap['connection.update']) => {
+		if(connection === 'open') {
+			isOnline = true
+			scheduleDrain()
+		} else if(connection === 'close') {
+			isOnline = false
+		}
+	}
+
+	const loaded = (async() => {
+		const items = await store.load()
+		items.sort((a, b) => a.enqueuedAt - b.enqueuedAt)
+		for(const item of items) {
+			lanes[item.priority].push(item)
+		}
+
+		if(items.length) {
+			logger.info({ count: items.length }, 'loaded pending messages')
+			scheduleDrain()
+		}
+	})()
+	loaded.catch(error => logger.error({ trace: error.stack }, 'failed to load pending messages'))
+
+	ev.on('connection.update', onConnectionUpdate)
+
+	return {
+		/** resolves once messages pending from a previous run have been loaded */
+		loaded,
+		/**
+		 * queues a message to be sent with `sendMessage`
+		 * @returns the queued message, resolved once it's persisted
+		 */
+		enqueue: (
+			jid: string,
+			content: AnyMessageContent,
+			{ priority = 'normal', ...options }: MiscMessageGenerationOptions & EnqueueOptions = { }
+		) => push({
+			id: options.messageId || generateMessageID(),
+			jid,
+			priority,
+			enqueuedAt: Date.now(),
+			attempts: 0,
+			type: 'send',
+			content,
+			options
+		}),
+		/**
+		 * queues an already generated message to be sent with `relayMessage`
+		 * @returns the queued message, resolved once it's persisted
+		 */
+		enqueueRelay: (
+			jid: string,
+			message: proto.IMessage,
+			{ priority = 'normal', ...options }: MessageRelayOptions & EnqueueOptions = { }
+		) => push({
+			id: options.messageId || generateMessageID(),
+			jid,
+			priority,
+			enqueuedAt: Date.now(),
+			attempts: 0,
+			type: 'relay',
+			message,
+			options
+		}),
+		/** removes a message that hasn't been sent yet */
+		cancel: async(id: string) => {
+			for(const priority of PRIORITIES) {
+				const item = lanes[priority].find(item => item.id === id)
+				if(item) {
+					removeFromLane(item)
+					await store.remove(id)
+					return true
+				}
+			}
+
+			return false
+		},
+		/** messages waiting to be sent, in the order they'll go out */
+		pending: () => PRIORITIES.flatMap(priority => lanes[priority]),
+		/** stops sending, pending messages stay in the store */
+		close: () => {
+			isClosed = true
+			clearTimeout(drainTimeout)
+			ev.off('connection.update', onConnectionUpdate)
+		}
+	}
+}
+
+export type MessageQueue = ReturnType<typeof makeMessageQueue>
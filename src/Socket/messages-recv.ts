@@ -3,8 +3,8 @@ import NodeCache from '@cacheable/node-cache'
 import { Boom } from '@hapi/boom'
 import { randomBytes } from 'crypto'
 import { proto } from '../../WAProto'
-import { DEFAULT_CACHE_TTLS, KEY_BUNDLE_TYPE, MIN_PREKEY_COUNT } from '../Defaults'
-import { MessageReceiptType, MessageRelayOptions, MessageUserReceipt, SocketConfig, WACallEvent, WAMessageKey, WAMessageStatus, WAMessageStubType, WAPatchName } from '../Types'
+import { DEFAULT_CACHE_TTLS, KEY_BUNDLE_TYPE, MIN_PREKEY_COUNT, PLACEHOLDER_RESEND_DELAY_MS } from '../Defaults'
+import { AlbumMediaContent, AlbumSendOptions, AnyMessageContent, GroupMetadata, MessageReceiptType, MessageRelayOptions, MessageUserReceipt, MiscMessageGenerationOptions, NewsletterResultPath, SentAlbum, SocketConfig, StatusAudience, StatusSendOptions, WACallEvent, WAMessage, WAMessageKey, WAMessageStatus, WAMessageStubType, WAPatchName } from '../Types'
 import {
 	aesDecryptCTR,
 	aesEncryptGCM,
@@ -16,10 +16,12 @@ import {
 	derivePairingCodeKey,
 	encodeBigEndian,
 	encodeSignedDeviceIdentity,
+	generateMessageID,
 	getCallStatusFromNode,
 	getHistoryMsg,
 	getNextPreKeys,
 	getStatusFromReceiptType, hkdf,
+	makeDeliveryTracker,
 	MISSING_KEYS_ERROR_TEXT,
 	NACK_REASONS,
 	unixTimestampSeconds,
@@ -34,14 +36,31 @@ import {
 	getBinaryNodeChild,
 	getBinaryNodeChildBuffer,
 	getBinaryNodeChildren,
+	isJidBroadcast,
 	isJidGroup, isJidStatusBroadcast,
 	isJidUser,
 	jidDecode,
 	jidNormalizedUser,
-	S_WHATSAPP_NET
+	S_WHATSAPP_NET,
+	STORIES_JID
 } from '../WABinary'
 import { extractGroupMetadata } from './groups'
 import { makeMessagesSocket } from './messages-send'
+import { extractNewsletterThreadMetadata } from './newsletter'
+
+/** the stub of a community (un)link notification, by its tag & the type of group (un)linked */
+const getCommunityLinkStubType = (tag: string, linkType: string | undefined) => {
+	switch (`${tag}:${linkType}`) {
+	case 'link:sub_group':
+		return WAMessageStubType.COMMUNITY_LINK_SUB_GROUP
+	case 'unlink:sub_group':
+		return WAMessageStubType.COMMUNITY_UNLINK_SUB_GROUP
+	case 'link:parent_group':
+		return WAMessageStubType.COMMUNITY_LINK_PARENT_GROUP
+	case 'unlink:parent_group':
+		return WAMessageStubType.COMMUNITY_UNLINK_PARENT_GROUP
+	}
+}
 
 export const makeMessagesRecvSocket = (config: SocketConfig) => {
 	const {
@@ -49,7 +68,9 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 		retryRequestDelayMs,
 		maxMsgRetryCount,
 		getMessage,
-		shouldIgnoreJid
+		shouldIgnoreJid,
+		cachedGroupMetadata,
+		defaultQueryTimeoutMs
 	} = config
 	const sock = makeMessagesSocket(config)
 	const {
@@ -57,6 +78,7 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 		authState,
 		ws,
 		processingMutex,
+		placeholderResendCache,
 		signalRepository,
 		query,
 		upsertMessage,
@@ -66,7 +88,14 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 		sendNode,
 		relayMessage,
 		sendReceipt,
+		sendPeerDataOperationMessage,
+		waitForRequestedHistory,
+		fetchStatusPrivacy,
+		broadcastListMetadata,
+		broadcastMessageCache,
 		uploadPreKeys,
+		groupMetadata,
+		groupMetadataCache,
 	} = sock
 
 	/** this mutex ensures that each retryRequest will wait for the previous one to finish */
@@ -76,11 +105,33 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 		stdTTL: DEFAULT_CACHE_TTLS.MSG_RETRY, // 1 hour
 		useClones: false
 	})
+	/** who the statuses we've posted were shared with, by ID */
+	const statusRecipientsCache = config.statusRecipientsCache || new NodeCache({
+		stdTTL: DEFAULT_CACHE_TTLS.STATUS, // 1 day, as long as a status lasts
+		useClones: false
+	})
 	const callOfferCache = config.callOfferCache || new NodeCache({
 		stdTTL: DEFAULT_CACHE_TTLS.CALL_OFFER, // 5 mins
 		useClones: false
 	})
 
+	const deliveryTracker = makeDeliveryTracker({
+		ackTimeoutMs: defaultQueryTimeoutMs,
+		getGroupRecipients: async(jid) => {
+			if(isJidBroadcast(jid)) {
+				return broadcastListMetadata(jid).recipients
+			}
+
+			// same lookup as relayMessage, so the recipients match who the message went to
+			const metadata = (await cachedGroupMetadata?.(jid))
+				|| groupMetadataCache.get<GroupMetadata>(jid)
+				|| await groupMetadata(jid)
+			const me = jidNormalizedUser(authState.creds.me!.id)
+			return metadata.participants
+				.map(({ id }) => jidNormalizedUser(id))
+				.filter(id => id !== me)
+		}
+	})
 
 	let sendActiveReceipts = false
 
@@ -138,6 +189,7 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 		await query(stanza)
 	}
 
+	/** @returns false if no retry was sent, as the retries have run out */
 	const sendRetryRequest = async(node: BinaryNode, forceIncludeKeys = false) => {
 		const msgId = node.attrs.id
 
@@ -145,7 +197,7 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 		if(retryCount >= maxMsgRetryCount) {
 			logger.debug({ retryCount, msgId }, 'reached retry limit, clearing')
 			msgRetryCache.del(msgId)
-			return
+			return false
 		}
 
 		retryCount += 1
@@ -216,6 +268,36 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 				logger.info({ msgAttrs: node.attrs, retryCount }, 'sent retry receipt')
 			}
 		)
+		return true
+	}
+
+	/**
+	 * asks the phone to resend a message we couldn't decrypt,
+	 * the message is then emitted in `messages.upsert` with the request's ID as `requestId`
+	 * @returns the ID of the request, undefined if no request was sent
+	 */
+	const requestPlaceholderResend = async(messageKey: WAMessageKey) => {
+		const msgId = messageKey.id!
+		if(placeholderResendCache.get<boolean>(msgId)) {
+			logger.debug({ messageKey }, 'already requested resend')
+			return
+		}
+
+		placeholderResendCache.set(msgId, true)
+		// the sender's retry may still deliver the message
+		await delay(PLACEHOLDER_RESEND_DELAY_MS)
+		if(!placeholderResendCache.get<boolean>(msgId)) {
+			logger.debug({ messageKey }, 'message received while resend pending')
+			return
+		}
+
+		const requestId = await sendPeerDataOperationMessage({
+			placeholderMessageResendRequest: [{ messageKey }],
+			peerDataOperationRequestType: proto.Message.PeerDataOperationRequestType.PLACEHOLDER_MESSAGE_RESEND
+		})
+		logger.debug({ messageKey, requestId }, 'requested placeholder resend')
+
+		return requestId
 	}
 
 	const handleEncryptNotification = async(node: BinaryNode) => {
@@ -348,6 +430,65 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 			msg.messageStubType = WAMessageStubType.GROUP_MEMBERSHIP_JOIN_APPROVAL_REQUEST_NON_ADMIN_ADD
 			msg.messageStubParameters = [ participantJid, isDenied ? 'revoked' : 'rejected' ]
 			break
+		case 'link':
+		case 'unlink':
+			// 'sub_group' when sent to the community, 'parent_group' when sent to the linked group
+			const linkType = child.attrs.link_type || child.attrs.unlink_type
+			const linkedGroup = getBinaryNodeChild(child, 'group')
+			const linkStubType = getCommunityLinkStubType(child.tag, linkType)
+			if(linkedGroup && linkStubType) {
+				msg.messageStubType = linkStubType
+				msg.messageStubParameters = [ linkedGroup.attrs.jid, linkedGroup.attrs.subject ]
+			}
+
+			break
+		}
+	}
+
+	/** live view & reaction counts of channels we've subscribed to */
+	const handleNewsletterNotification = (id: string, node: BinaryNode) => {
+		const message = getBinaryNodeChild(getBinaryNodeChild(node, 'messages'), 'message')
+		if(!message) {
+			return
+		}
+
+		const serverId = message.attrs.server_id
+		const reactionsNode = getBinaryNodeChild(message, 'reactions')
+		if(reactionsNode) {
+			const reactions = getBinaryNodeChildren(reactionsNode, 'reaction')
+			if(!reactions.length) {
+				ev.emit('newsletter.reaction', { id, serverId, reaction: { removed: true } })
+			}
+
+			for(const { attrs } of reactions) {
+				ev.emit('newsletter.reaction', { id, serverId, reaction: { code: attrs.code, count: +attrs.count } })
+			}
+		}
+
+		const viewsNode = getBinaryNodeChild(message, 'views_count')
+		if(viewsNode) {
+			ev.emit('newsletter.view', { id, serverId, count: +viewsNode.attrs.count })
+		}
+	}
+
+	const handleMexNotification = (node: BinaryNode) => {
+		const operation = node.attrs.op_name
+		if(operation !== 'NotificationNewsletterUpdate') {
+			logger.debug({ operation }, 'ignoring mex notification')
+			return
+		}
+
+		let content
+		try {
+			content = JSON.parse(node.content!.toString())
+		} catch(error) {
+			logger.warn({ operation, trace: error.stack }, 'failed to parse mex notification')
+			return
+		}
+
+		const data = content?.data?.[NewsletterResultPath.METADATA_UPDATE]
+		if(data?.id) {
+			ev.emit('newsletter.update', { id: data.id, update: extractNewsletterThreadMetadata(data.thread_metadata) })
 		}
 	}
 
@@ -376,6 +517,12 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 		case 'w:gp2':
 			handleGroupNotification(node.attrs.participant, child, result)
 			break
+		case 'newsletter':
+			handleNewsletterNotification(node.attrs.from, child)
+			break
+		case 'mex':
+			handleMexNotification(child)
+			break
 		case 'mediaretry':
 			const event = decodeMediaRetryNode(node)
 			ev.emit('messages.media-update', [event])
@@ -620,6 +767,12 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 				processingMutex.mutex(
 					async() => {
 						const status = getStatusFromReceiptType(attrs.type)
+						if(typeof status !== 'undefined' && !isNodeFromMe) {
+							for(const id of ids) {
+								deliveryTracker.onReceipt(id, attrs.participant || attrs.from, status)
+							}
+						}
+
 						if(
 							typeof status !== 'undefined' &&
 							(
@@ -642,6 +795,17 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 											}
 										}))
 									)
+
+									if(isJidStatusBroadcast(remoteJid) && key.fromMe && status >= proto.WebMessageInfo.Status.READ) {
+										ev.emit(
+											'status.viewers',
+											ids.map(id => ({
+												key: { ...key, id },
+												viewer: jidNormalizedUser(attrs.participant),
+												timestamp: +attrs.t
+											}))
+										)
+									}
 								}
 							} else {
 								ev.emit(
@@ -651,6 +815,26 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 										update: { status }
 									}))
 								)
+
+								// recipients of a broadcast list receive the message in their own chat
+								const broadcastReceipts = isNodeFromMe ? [] : ids.flatMap(id => {
+									const broadcastJid = broadcastMessageCache.get<string>(id)
+									if(!broadcastJid) {
+										return []
+									}
+
+									const updateKey: keyof MessageUserReceipt = status === proto.WebMessageInfo.Status.DELIVERY_ACK ? 'receiptTimestamp' : 'readTimestamp'
+									return [{
+										key: { remoteJid: broadcastJid, fromMe: true, id },
+										receipt: {
+											userJid: jidNormalizedUser(remoteJid),
+											[updateKey]: +attrs.t
+										}
+									}]
+								})
+								if(broadcastReceipts.length) {
+									ev.emit('message-receipt.update', broadcastReceipts)
+								}
 							}
 						}
 
@@ -749,6 +933,15 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 						await decrypt()
 						// message failed to decrypt
 						if(msg.messageStubType === proto.WebMessageInfo.StubType.CIPHERTEXT) {
+							// a retry receipt can't recover every message, the phone may still have it
+							const requestResendFromPhone = () => {
+								// peer messages are the phone's own protocol messages to us, it can't resend those
+								if(category !== 'peer') {
+									requestPlaceholderResend(msg.key)
+										.catch(error => onUnexpectedError(error, 'placeholder resend'))
+								}
+							}
+
 						  if(msg?.messageStubParameters?.[0] === MISSING_KEYS_ERROR_TEXT) {
 								return sendMessageAck(node, NACK_REASONS.ParsingError)
 							}
@@ -756,12 +949,17 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 							retryMutex.mutex(
 								async() => {
 									if(ws.isOpen) {
+										// the sender has nothing to re-encrypt for us
 										if(getBinaryNodeChild(node, 'unavailable')) {
+											requestResendFromPhone()
 											return
 										}
 
 										const encNode = getBinaryNodeChild(node, 'enc')
-										await sendRetryRequest(node, !encNode)
+										if(!await sendRetryRequest(node, !encNode)) {
+											requestResendFromPhone()
+										}
+
 										if(retryRequestDelayMs) {
 											await delay(retryRequestDelayMs)
 										}
@@ -771,6 +969,8 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 								}
 							)
 						} else {
+							// the message made it, no need for the phone to resend it
+							placeholderResendCache.del(msg.key.id!)
 							// no type in the receipt => message delivered
 							let type: MessageReceiptType = undefined
 							let participant = msg.key.participant
@@ -853,6 +1053,7 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 
 	const handleBadAck = async({ attrs }: BinaryNode) => {
 		const key: WAMessageKey = { remoteJid: attrs.from, fromMe: true, id: attrs.id }
+		deliveryTracker.onServerAck(attrs.id, attrs.error)
 
 		// WARNING: REFRAIN FROM ENABLING THIS FOR NOW. IT WILL CAUSE A LOOP
 		// // current hypothesis is that if pash is sent in the ack
@@ -1024,11 +1225,158 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 		}
 	})
 
+	/**
+	 * asks the phone for the messages in a chat sent before the given message
+	 * @param count number of messages to fetch, the phone may send fewer
+	 * @param oldestMsgKey key of the oldest message we have from the chat
+	 * @param oldestMsgTimestamp timestamp of the oldest message, in ms
+	 * @returns the messages, once the phone sends them over as an ON_DEMAND history sync.
+	 * They're emitted in `messaging-history.set` as well
+	 */
+	const fetchMessageHistory = async(
+		count: number,
+		oldestMsgKey: WAMessageKey,
+		oldestMsgTimestamp: number,
+		timeoutMs = defaultQueryTimeoutMs
+	) => {
+		// the phone uses the ID of our request as the history's session ID
+		const requestId = generateMessageID()
+		const history = waitForRequestedHistory(requestId, timeoutMs)
+		const [messages] = await Promise.all([
+			history,
+			sendPeerDataOperationMessage(
+				{
+					historySyncOnDemandRequest: {
+						chatJid: oldestMsgKey.remoteJid,
+						oldestMsgFromMe: oldestMsgKey.fromMe,
+						oldestMsgId: oldestMsgKey.id,
+						oldestMsgTimestampMs: oldestMsgTimestamp,
+						onDemandMsgCount: count
+					},
+					peerDataOperationRequestType: proto.Message.PeerDataOperationRequestType.HISTORY_SYNC_ON_DEMAND
+				},
+				requestId
+			)
+		])
+
+		return messages
+	}
+
+	/** sends a message, the returned message can be used to track its delivery */
+	const sendMessage = async(jid: string, content: AnyMessageContent, options: MiscMessageGenerationOptions = { }) => {
+		const messageId = options.messageId || generateMessageID()
+		// tracking must start before sending, the ack may arrive before the send resolves
+		deliveryTracker.track(messageId, jid)
+		let msg: WAMessage | undefined
+		try {
+			msg = await sock.sendMessage(jid, content, { ...options, messageId })
+		} finally {
+			// nothing was sent, so there's nothing to track
+			if(!msg) {
+				deliveryTracker.untrack(messageId)
+			}
+		}
+
+		return msg ? deliveryTracker.attachHandle(msg) : undefined
+	}
+
+	/**
+	 * sends an album, its message can be used to track its delivery.
+	 * Set `trackItems` for the messages of its items to be trackable as well
+	 */
+	const sendAlbum = async<TrackItems extends boolean = false>(
+		jid: string,
+		items: AlbumMediaContent[],
+		{ trackItems, ...options }: AlbumSendOptions & { trackItems?: TrackItems } = { }
+	): Promise<SentAlbum<TrackItems>> => {
+		const messageId = options.messageId || generateMessageID()
+		const itemMessageIds = options.itemMessageIds || items.map(() => generateMessageID())
+		const trackedIds = trackItems ? [messageId, ...itemMessageIds] : [messageId]
+		for(const id of trackedIds) {
+			deliveryTracker.track(id, jid)
+		}
+
+		let sent: Awaited<ReturnType<typeof sock.sendAlbum>> | undefined
+		try {
+			sent = await sock.sendAlbum(jid, items, { ...options, messageId, itemMessageIds })
+		} finally {
+			if(!sent) {
+				for(const id of trackedIds) {
+					deliveryTracker.untrack(id)
+				}
+			}
+		}
+
+		return {
+			album: deliveryTracker.attachHandle(sent.album),
+			items: (trackItems ? sent.items.map(msg => deliveryTracker.attachHandle(msg)) : sent.items) as SentAlbum<TrackItems>['items']
+		}
+	}
+
+	/** @returns the users a status must be sent to, including ourselves so our other devices see it */
+	const getStatusRecipients = async(audience: StatusAudience) => {
+		let jids: string[]
+		if(audience.type === 'list') {
+			jids = audience.jids
+		} else {
+			const [privacy] = await fetchStatusPrivacy()
+			if(privacy?.type === 'whitelist') {
+				jids = privacy.list
+			} else if(privacy?.type === 'blacklist') {
+				const excluded = new Set(privacy.list.map(jidNormalizedUser))
+				jids = audience.contacts.filter(jid => !excluded.has(jidNormalizedUser(jid)))
+			} else {
+				jids = audience.contacts
+			}
+		}
+
+		const meId = jidNormalizedUser(authState.creds.me!.id)
+		return Array.from(new Set([...jids.map(jidNormalizedUser), meId]))
+	}
+
+	/**
+	 * post a status (story)
+	 * @example
+	 * // share with the contacts in the store, as the privacy setting on the phone allows
+	 * await sock.sendStatus({ text: 'hello' }, { audience: { type: 'contacts', contacts: Object.keys(store.contacts) }, backgroundColor: '#000000' })
+	 */
+	const sendStatus = async(content: AnyMessageContent, { audience, ...options }: StatusSendOptions) => {
+		const statusJidList = await getStatusRecipients(audience)
+		const msg = await sendMessage(STORIES_JID, content, { ...options, statusJidList })
+		if(msg) {
+			// a status can only be deleted by sending the revoke to the same users
+			statusRecipientsCache.set(msg.key.id!, statusJidList)
+		}
+
+		return msg
+	}
+
+	/**
+	 * delete a status we posted
+	 * @param audience who the status was shared with, only required if `statusRecipientsCache` no longer has it
+	 */
+	const deleteStatus = async(key: WAMessageKey, audience?: StatusAudience) => {
+		const statusJidList = statusRecipientsCache.get<string[]>(key.id!)
+			|| (audience ? await getStatusRecipients(audience) : undefined)
+		if(!statusJidList) {
+			throw new Boom('Unknown status recipients, provide the audience it was shared with', { statusCode: 400, data: key })
+		}
+
+		const msg = await sendMessage(STORIES_JID, { delete: { ...key, remoteJid: STORIES_JID, fromMe: true } }, { statusJidList })
+		statusRecipientsCache.del(key.id!)
+		return msg
+	}
+
 	return {
 		...sock,
+		sendMessage,
+		sendAlbum,
+		sendStatus,
+		deleteStatus,
 		sendMessageAck,
 		sendRetryRequest,
 		rejectCall,
-
+		fetchMessageHistory,
+		requestPlaceholderResend
 	}
 }
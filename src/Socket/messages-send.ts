@@ -3,12 +3,12 @@ import NodeCache from '@cacheable/node-cache'
 import { Boom } from '@hapi/boom'
 import { proto } from '../../WAProto'
 import { DEFAULT_CACHE_TTLS, WA_DEFAULT_EPHEMERAL } from '../Defaults'
-import { AnyMessageContent, MediaConnInfo, MessageReceiptType, MessageRelayOptions, MiscMessageGenerationOptions, SocketConfig, WAMessageKey } from '../Types'
-import { aggregateMessageKeysNotFromMe, assertMediaContent, bindWaitForEvent, decryptMediaRetryData, encodeSignedDeviceIdentity, encodeWAMessage, encryptMediaRetryRequest, extractDeviceJids, generateMessageID, generateWAMessage, getStatusCodeForMediaRetry, getUrlFromDirectPath, getWAUploadToServer, normalizeMessageContent, parseAndInjectE2ESessions, unixTimestampSeconds } from '../Utils'
+import { AlbumMediaContent, AlbumSendOptions, AnyMessageContent, GroupMetadata, MediaConnInfo, MessageGenerationOptions, MessageReceiptType, MessageRelayOptions, MiscMessageGenerationOptions, SocketConfig, WAMessageKey } from '../Types'
+import { aggregateMessageKeysNotFromMe, assertMediaContent, bindWaitForEvent, cacheEventMessage, cachePollMessage, decryptMediaRetryData, encodeSignedDeviceIdentity, encodeWAMessage, encryptMediaRetryRequest, extractDeviceJids, extractMessageContent, generateAlbumItemMessages, generateMessageID, generateWAMessage, getStatusCodeForMediaRetry, getUrlFromDirectPath, getWAUploadToServer, normalizeMessageContent, parseAndInjectE2ESessions, unixTimestampSeconds } from '../Utils'
 import { getUrlInfo } from '../Utils/link-preview'
-import { areJidsSameUser, BinaryNode, BinaryNodeAttributes, getBinaryNodeChild, getBinaryNodeChildren, isJidGroup, isJidUser, jidDecode, jidEncode, jidNormalizedUser, JidWithDevice, S_WHATSAPP_NET } from '../WABinary'
+import { areJidsSameUser, BinaryNode, BinaryNodeAttributes, getBinaryNodeChild, getBinaryNodeChildren, isJidGroup, isJidNewsletter, isJidUser, jidDecode, jidEncode, jidNormalizedUser, JidWithDevice, S_WHATSAPP_NET } from '../WABinary'
 import { USyncQuery, USyncUser } from '../WAUSync'
-import { makeGroupsSocket } from './groups'
+import { makeNewsletterSocket } from './newsletter'
 
 export const makeMessagesSocket = (config: SocketConfig) => {
 	const {
@@ -19,7 +19,7 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 		patchMessageBeforeSending,
 		cachedGroupMetadata,
 	} = config
-	const sock = makeGroupsSocket(config)
+	const sock = makeNewsletterSocket(config)
 	const {
 		ev,
 		authState,
@@ -28,9 +28,18 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 		fetchPrivacySettings,
 		sendNode,
 		groupMetadata,
+		groupMetadataCache,
 		groupToggleEphemeral,
+		pollCache,
+		broadcastListMetadata,
 	} = sock
 
+	/** the broadcast lists messages we've sent went to, by message ID */
+	const broadcastMessageCache = config.broadcastMessageCache || new NodeCache({
+		stdTTL: DEFAULT_CACHE_TTLS.MSG_DELIVERY, // 1 day
+		useClones: false
+	})
+
 	const userDevicesCache = config.userDevicesCache || new NodeCache({
 		stdTTL: DEFAULT_CACHE_TTLS.USER_DEVICES, // 5 minutes
 		useClones: false
@@ -134,6 +143,33 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 		await sendReceipts(keys, readType)
  	}
 
+	/**
+	 * sends a peer data operation request to our primary device,
+	 * the phone responds to it with a message referencing the request's ID
+	 * @returns the ID of the request
+	 */
+	const sendPeerDataOperationMessage = async(pdoMessage: proto.Message.IPeerDataOperationRequestMessage, messageId?: string) => {
+		if(!authState.creds.me?.id) {
+			throw new Boom('Not authenticated', { statusCode: 401 })
+		}
+
+		const protocolMessage: proto.IMessage = {
+			protocolMessage: {
+				peerDataOperationRequestMessage: pdoMessage,
+				type: proto.Message.ProtocolMessage.Type.PEER_DATA_OPERATION_REQUEST_MESSAGE
+			}
+		}
+
+		const meJid = jidNormalizedUser(authState.creds.me.id)
+		return relayMessage(meJid, protocolMessage, {
+			messageId,
+			additionalAttributes: {
+				category: 'peer',
+				'push_priority': 'high_force'
+			}
+		})
+	}
+
 	/** Fetch all the devices we've to send a message to */
 	const getUSyncDevices = async(jids: string[], useCache: boolean, ignoreZeroDevices: boolean) => {
 		const deviceResults: JidWithDevice[] = []
@@ -311,6 +347,14 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 		const isLid = server === 'lid'
 
 		msgId ||= generateMessageID()
+		if(server === 'newsletter') {
+			return relayNewsletterMessage(jid, message, msgId, additionalAttributes)
+		}
+
+		if(server === 'broadcast' && !isStatus) {
+			return relayBroadcastListMessage(jid, message, { messageId: msgId, additionalAttributes, additionalNodes, useUserDevicesCache })
+		}
+
 		useUserDevicesCache = useUserDevicesCache !== false
 		useCachedGroupMetadata = useCachedGroupMetadata !== false && !isStatus
 
@@ -354,8 +398,8 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 				if(isGroup || isStatus) {
 					const [groupData, senderKeyMap] = await Promise.all([
 						(async () => {
-							let data = useCachedGroupMetadata && cachedGroupMetadata
-								? await cachedGroupMetadata(jid)
+							let data = useCachedGroupMetadata
+								? (await cachedGroupMetadata?.(jid)) || groupMetadataCache.get<GroupMetadata>(jid)
 								: undefined
 					
 							if (!data && !isStatus) {
@@ -541,6 +585,11 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 					logger.debug({ jid }, 'adding device identity')
 				}
 
+				const bizNode = getBizNode(message)
+				if(bizNode) {
+					(stanza.content as BinaryNode[]).push(bizNode)
+				}
+
 				if(additionalNodes && additionalNodes.length > 0) {
 					(stanza.content as BinaryNode[]).push(...additionalNodes)
 				}
@@ -555,14 +604,136 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 	}
 
 
+	/**
+	 * the message is sent to each recipient's own chat with us, with the same ID so receipts map back to it.
+	 * A failed recipient doesn't stop the others, the failures are thrown once all have been tried;
+	 * retry them by relaying the message to each with the same ID
+	 */
+	const relayBroadcastListMessage = async(jid: string, message: proto.IMessage, options: MessageRelayOptions) => {
+		const { recipients } = broadcastListMetadata(jid)
+		const msgId = options.messageId!
+		broadcastMessageCache.set(msgId, jid)
+
+		const failed: { jid: string, error: Error }[] = []
+		for(const recipient of recipients) {
+			try {
+				await relayMessage(recipient, message, options)
+			} catch(error) {
+				logger.warn({ msgId, recipient, trace: error.stack }, 'failed to send broadcast list message to recipient')
+				failed.push({ jid: recipient, error })
+			}
+		}
+
+		if(failed.length) {
+			throw new Boom(
+				`Failed to send to ${failed.length} of ${recipients.length} recipients`,
+				{ statusCode: 500, data: { msgId, failed } }
+			)
+		}
+
+		logger.debug({ msgId, recipients: recipients.length }, `sent message to broadcast list ${jid}`)
+
+		return msgId
+	}
+
+	/** channel posts aren't end-to-end encrypted, they're sent to the channel as plaintext */
+	const relayNewsletterMessage = async(
+		jid: string,
+		message: proto.IMessage,
+		msgId: string,
+		additionalAttributes: MessageRelayOptions['additionalAttributes']
+	) => {
+		// edits & deletes are sent with the ID of the post they change
+		const protocolMsg = message.protocolMessage
+		if(protocolMsg?.editedMessage) {
+			msgId = protocolMsg.key!.id!
+			message = protocolMsg.editedMessage
+		} else if(protocolMsg?.type === proto.Message.ProtocolMessage.Type.REVOKE) {
+			msgId = protocolMsg.key!.id!
+			message = { }
+		}
+
+		const content = extractMessageContent(message)
+		const media = content?.imageMessage
+			|| content?.videoMessage
+			|| content?.ptvMessage
+			|| content?.audioMessage
+			|| content?.documentMessage
+			|| content?.stickerMessage
+		// only the newsletter upload hands out the ID a post's media is referred to by
+		if(media && (media.mediaKey?.length || !additionalAttributes?.['media_id'])) {
+			throw new Boom(
+				'Newsletter media must be uploaded unencrypted, send it with sendMessage',
+				{ statusCode: 400 }
+			)
+		}
+
+		const patched = await patchMessageBeforeSending(message)
+		if(Array.isArray(patched)) {
+			throw new Boom('Per-jid patching is not supported in newsletters')
+		}
+
+		const mediaType = getMediaType(patched)
+		await sendNode({
+			tag: 'message',
+			attrs: {
+				to: jid,
+				id: msgId,
+				type: getMessageType(patched),
+				...additionalAttributes
+			},
+			content: [
+				{
+					tag: 'plaintext',
+					attrs: mediaType ? { mediatype: mediaType } : { },
+					content: proto.Message.encode(patched).finish()
+				}
+			]
+		})
+
+		logger.debug({ msgId }, `sent newsletter message to ${jid}`)
+
+		return msgId
+	}
+
 	const getMessageType = (message: proto.IMessage) => {
 		if(message.pollCreationMessage || message.pollCreationMessageV2 || message.pollCreationMessageV3) {
 			return 'poll'
 		}
 
+		if(message.eventMessage) {
+			return 'event'
+		}
+
 		return 'text'
 	}
 
+	/** interactive messages are only rendered by the recipient if they come with a biz node */
+	const getBizNode = (message: proto.IMessage): BinaryNode | undefined => {
+		const content = normalizeMessageContent(message)
+		if(content?.listMessage) {
+			return {
+				tag: 'biz',
+				attrs: { },
+				content: [{ tag: 'list', attrs: { type: 'product_list', v: '2' } }]
+			}
+		}
+
+		if(content?.buttonsMessage || content?.templateMessage || content?.interactiveMessage) {
+			return {
+				tag: 'biz',
+				attrs: { },
+				content: [
+					{
+						tag: 'interactive',
+						attrs: { type: 'native_flow', v: '1' },
+						content: [{ tag: 'native_flow', attrs: { v: '9', name: 'mixed' } }]
+					}
+				]
+			}
+		}
+	}
+
 	const getMediaType = (message: proto.IMessage) => {
 		if(message.imageMessage) {
 			return 'image'
@@ -631,6 +802,56 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 
 	const waitForMsgMediaUpdate = bindWaitForEvent(ev, 'messages.media-update')
 
+	/** the options to generate a message that is about to be sent */
+	const getGenerationOptions = (options: MiscMessageGenerationOptions): MessageGenerationOptions => ({
+		logger,
+		userJid: authState.creds.me!.id,
+		getUrlInfo: text => getUrlInfo(
+			text,
+			{
+				thumbnailWidth: linkPreviewImageThumbnailWidth,
+				fetchOpts: {
+					timeout: 3_000,
+					...axiosOptions || { }
+				},
+				logger,
+				uploadImage: generateHighQualityLinkPreview
+					? waUploadToServer
+					: undefined
+			},
+		),
+		//TODO: CACHE
+		getProfilePicUrl: sock.profilePictureUrl,
+		upload: waUploadToServer,
+		mediaCache: config.mediaCache,
+		options: config.options,
+		messageId: generateMessageID(),
+		...options,
+	})
+
+	/**
+	 * send images & videos grouped as an album, each item is sent as a message of its own.
+	 * The items are uploaded first, so a failed upload doesn't leave an empty album behind
+	 * @returns the album's message & those of its items
+	 */
+	const sendAlbum = async(
+		jid: string,
+		items: AlbumMediaContent[],
+		{ uploadConcurrency, itemMessageIds, ...options }: AlbumSendOptions = { }
+	) => {
+		const generationOptions = getGenerationOptions(options)
+		const albumMsg = await generateWAMessage(jid, { album: items }, generationOptions)
+		const itemMsgs = await generateAlbumItemMessages(jid, albumMsg.key, items, { ...generationOptions, uploadConcurrency, itemMessageIds })
+		const relayOptions = { useCachedGroupMetadata: options.useCachedGroupMetadata, statusJidList: options.statusJidList }
+		await relayMessage(jid, albumMsg.message!, { ...relayOptions, messageId: albumMsg.key.id! })
+		// in order, so the items show up in the album as they were given
+		for(const itemMsg of itemMsgs) {
+			await relayMessage(jid, itemMsg.message!, { ...relayOptions, messageId: itemMsg.key.id! })
+		}
+
+		return { album: albumMsg, items: itemMsgs }
+	}
+
 	return {
 		...sock,
 		getPrivacyTokens,
@@ -639,6 +860,8 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 		sendReceipt,
 		sendReceipts,
 		readMessages,
+		sendPeerDataOperationMessage,
+		broadcastMessageCache,
 		refreshMediaConn,
 		waUploadToServer,
 		fetchPrivacySettings,
@@ -700,7 +923,6 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 			content: AnyMessageContent,
 			options: MiscMessageGenerationOptions = { }
 		) => {
-			const userJid = authState.creds.me!.id
 			if(
 				typeof content === 'object' &&
 				'disappearingMessagesInChat' in content &&
@@ -712,42 +934,35 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 					(disappearingMessagesInChat ? WA_DEFAULT_EPHEMERAL : 0) :
 					disappearingMessagesInChat
 				await groupToggleEphemeral(jid, value)
+			} else if('album' in content && !!content.album) {
+				const { album } = await sendAlbum(jid, content.album, options)
+				return album
 			} else {
+				// newsletter posts refer to their media by the ID of its upload
+				let mediaHandle: string | undefined
 				const fullMsg = await generateWAMessage(
 					jid,
 					content,
 					{
-						logger,
-						userJid,
-						getUrlInfo: text => getUrlInfo(
-							text,
-							{
-								thumbnailWidth: linkPreviewImageThumbnailWidth,
-								fetchOpts: {
-									timeout: 3_000,
-									...axiosOptions || { }
-								},
-								logger,
-								uploadImage: generateHighQualityLinkPreview
-									? waUploadToServer
-									: undefined
-							},
-						),
-						//TODO: CACHE
-						getProfilePicUrl: sock.profilePictureUrl,
-						upload: waUploadToServer,
-						mediaCache: config.mediaCache,
-						options: config.options,
-						messageId: generateMessageID(),
-						...options,
+						...getGenerationOptions(options),
+						upload: async(stream, opts) => {
+							const result = await waUploadToServer(stream, opts)
+							mediaHandle = result.handle
+							return result
+						},
 					}
 				)
 				const isDeleteMsg = 'delete' in content && !!content.delete
 				const isEditMsg = 'edit' in content && !!content.edit
 				const isPinMsg = 'pin' in content && !!content.pin
 				const isPollMessage = 'poll' in content && !!content.poll
+				const isEventMessage = 'event' in content && !!content.event
 				const additionalAttributes: BinaryNodeAttributes = { }
 				const additionalNodes: BinaryNode[] = []
+				if(mediaHandle && isJidNewsletter(jid)) {
+					additionalAttributes['media_id'] = mediaHandle
+				}
+
 				// required for delete
 				if(isDeleteMsg) {
 					// if the chat is a group, and I am not the author, then delete the message as an admin
@@ -761,12 +976,17 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 				} else if(isPinMsg) {
 					additionalAttributes.edit = '2'
 				} else if(isPollMessage) {
+					// keep the poll's secret, votes on it can't be decrypted without it
+					cachePollMessage(pollCache, fullMsg.key.id!, fullMsg.message!)
 					additionalNodes.push({
 						tag: 'meta',
 						attrs: {
 							polltype: 'creation'
 						},
 					} as BinaryNode)
+				} else if(isEventMessage) {
+					// same for the responses to an event
+					cacheEventMessage(pollCache, fullMsg.key.id!, fullMsg.message!)
 				}
 
 				if('cachedGroupMetadata' in options) {
@@ -776,6 +996,7 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 				await relayMessage(jid, fullMsg.message!, { messageId: fullMsg.key.id!, useCachedGroupMetadata: options.useCachedGroupMetadata, additionalAttributes, statusJidList: options.statusJidList, additionalNodes })
 				return fullMsg
 			}
-		}
+		},
+		sendAlbum
 	}
 }
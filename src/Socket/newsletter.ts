@@ -0,0 +1,322 @@
+import { Boom } from '@hapi/boom'
+import {
+	NewsletterFetchedUpdate,
+	NewsletterMetadata,
+	NewsletterQueryId,
+	NewsletterReactionMode,
+	NewsletterResultPath,
+	NewsletterViewRole,
+	SocketConfig,
+	WAMediaUpload
+} from '../Types'
+import { decryptMessageNode, generateMessageID, generateProfilePicture } from '../Utils'
+import { BinaryNode, getAllBinaryNodeChildren, getBinaryNodeChild, getBinaryNodeChildren, S_WHATSAPP_NET } from '../WABinary'
+import { makeGroupsSocket } from './groups'
+
+export const makeNewsletterSocket = (config: SocketConfig) => {
+	const sock = makeGroupsSocket(config)
+	const { authState, signalRepository, query, sendNode } = sock
+
+	const newsletterQuery = async(jid: string, type: 'get' | 'set', content: BinaryNode[]) => (
+		query({
+			tag: 'iq',
+			attrs: {
+				type,
+				xmlns: 'newsletter',
+				to: jid,
+			},
+			content
+		})
+	)
+
+	/** channels are mostly managed through graphql-like "mex" queries */
+	const newsletterMexQuery = async(jid: string | undefined, queryId: NewsletterQueryId, variables?: object) => (
+		query({
+			tag: 'iq',
+			attrs: {
+				type: 'get',
+				xmlns: 'w:mex',
+				to: S_WHATSAPP_NET,
+			},
+			content: [
+				{
+					tag: 'query',
+					attrs: { 'query_id': queryId },
+					content: Buffer.from(JSON.stringify({
+						variables: {
+							'newsletter_id': jid,
+							...variables
+						}
+					}))
+				}
+			]
+		})
+	)
+
+	const newsletterUpdate = async(jid: string, updates: object) => {
+		await newsletterMexQuery(jid, NewsletterQueryId.JOB_MUTATION, { updates: { settings: null, ...updates } })
+	}
+
+	const parseFetchedUpdates = async(node: BinaryNode, type: 'messages' | 'updates') => {
+		const messagesNode = type === 'messages'
+			? getBinaryNodeChild(node, 'messages')
+			: getBinaryNodeChild(getBinaryNodeChild(node, 'message_updates'), 'messages')
+
+		const updates: NewsletterFetchedUpdate[] = []
+		if(!messagesNode) {
+			return updates
+		}
+
+		for(const messageNode of getAllBinaryNodeChildren(messagesNode)) {
+			messageNode.attrs.from = messagesNode.attrs.jid
+			const views = getBinaryNodeChild(messageNode, 'views_count')?.attrs.count
+			const update: NewsletterFetchedUpdate = {
+				serverId: messageNode.attrs.server_id,
+				views: views ? +views : undefined,
+				reactions: getBinaryNodeChildren(getBinaryNodeChild(messageNode, 'reactions'), 'reaction')
+					.map(({ attrs }) => ({ code: attrs.code, count: +attrs.count }))
+			}
+
+			if(type === 'messages') {
+				const { fullMessage, decrypt } = decryptMessageNode(
+					messageNode,
+					authState.creds.me!.id,
+					authState.creds.me!.lid || '',
+					signalRepository,
+					config.logger
+				)
+				await decrypt()
+				update.message = fullMessage
+			}
+
+			updates.push(update)
+		}
+
+		return updates
+	}
+
+	/**
+	 * accepts the channel terms of service on the user's behalf,
+	 * which WA requires before they can create a channel
+	 */
+	const newsletterAcceptTos = async() => {
+		await query({
+			tag: 'iq',
+			attrs: {
+				to: S_WHATSAPP_NET,
+				xmlns: 'tos',
+				type: 'set'
+			},
+			content: [
+				{ tag: 'notice', attrs: { id: '20601218', stage: '5' } }
+			]
+		})
+	}
+
+	/**
+	 * create a channel. The user must have accepted the channel terms of service,
+	 * on their phone or with `newsletterAcceptTos`
+	 * @param reactionMode which reactions subscribers can use on posts
+	 */
+	const newsletterCreate = async(name: string, description?: string, reactionMode: NewsletterReactionMode = 'ALL') => {
+		const result = await newsletterMexQuery(undefined, NewsletterQueryId.CREATE, {
+			input: {
+				name,
+				description: description || null,
+				settings: { 'reaction_codes': { value: reactionMode } }
+			}
+		})
+		return extractNewsletterMetadata(result, NewsletterResultPath.CREATE)
+	}
+
+	/**
+	 * fetch a channel's metadata
+	 * @param type whether the key is the channel's JID or the code of its invite link
+	 */
+	const newsletterMetadata = async(type: 'invite' | 'jid', key: string, role: NewsletterViewRole = 'GUEST') => {
+		const result = await newsletterMexQuery(undefined, NewsletterQueryId.METADATA, {
+			input: { key, type: type.toUpperCase(), 'view_role': role },
+			'fetch_viewer_metadata': true,
+			'fetch_full_image': true,
+			'fetch_creation_time': true
+		})
+		return extractNewsletterMetadata(result, NewsletterResultPath.NEWSLETTER)
+	}
+
+	return {
+		...sock,
+		newsletterAcceptTos,
+		newsletterCreate,
+		newsletterMetadata,
+		newsletterFollow: async(jid: string) => {
+			await newsletterMexQuery(jid, NewsletterQueryId.FOLLOW)
+		},
+		newsletterUnfollow: async(jid: string) => {
+			await newsletterMexQuery(jid, NewsletterQueryId.UNFOLLOW)
+		},
+		newsletterMute: async(jid: string) => {
+			await newsletterMexQuery(jid, NewsletterQueryId.MUTE)
+		},
+		newsletterUnmute: async(jid: string) => {
+			await newsletterMexQuery(jid, NewsletterQueryId.UNMUTE)
+		},
+		newsletterUpdateName: async(jid: string, name: string) => {
+			await newsletterUpdate(jid, { name })
+		},
+		newsletterUpdateDescription: async(jid: string, description?: string) => {
+			await newsletterUpdate(jid, { description: description || '' })
+		},
+		newsletterUpdatePicture: async(jid: string, content: WAMediaUpload) => {
+			const { img } = await generateProfilePicture(content)
+			await newsletterUpdate(jid, { picture: img.toString('base64') })
+		},
+		newsletterRemovePicture: async(jid: string) => {
+			await newsletterUpdate(jid, { picture: '' })
+		},
+		newsletterReactionMode: async(jid: string, mode: NewsletterReactionMode) => {
+			await newsletterMexQuery(jid, NewsletterQueryId.JOB_MUTATION, {
+				updates: { settings: { 'reaction_codes': { value: mode } } }
+			})
+		},
+		/** @returns the number of admins of a channel we own */
+		newsletterAdminCount: async(jid: string) => {
+			const result = await newsletterMexQuery(jid, NewsletterQueryId.ADMIN_COUNT)
+			const data = parseMexResult(result, NewsletterResultPath.ADMIN_COUNT)
+			return +data['admin_count']
+		},
+		newsletterDelete: async(jid: string) => {
+			await newsletterMexQuery(jid, NewsletterQueryId.DELETE)
+		},
+		/**
+		 * react to a post in a channel
+		 * @param serverId server ID of the post
+		 * @param code the emoji, leave empty to remove the reaction
+		 */
+		newsletterReactMessage: async(jid: string, serverId: string, code?: string) => {
+			await sendNode({
+				tag: 'message',
+				attrs: {
+					to: jid,
+					id: generateMessageID(),
+					type: 'reaction',
+					'server_id': serverId,
+					...(code ? { } : { edit: '7' })
+				},
+				content: [
+					{ tag: 'reaction', attrs: code ? { code } : { } }
+				]
+			})
+		},
+		/**
+		 * fetch the latest posts of a channel
+		 * @param type whether the key is the channel's JID or the code of its invite link
+		 * @param before only fetch posts older than this server ID
+		 */
+		newsletterFetchMessages: async(type: 'invite' | 'jid', key: string, count: number, before?: number) => {
+			const result = await newsletterQuery(S_WHATSAPP_NET, 'get', [
+				{
+					tag: 'messages',
+					attrs: {
+						type,
+						...(type === 'invite' ? { key } : { jid: key }),
+						count: count.toString(),
+						...(before ? { before: before.toString() } : { })
+					}
+				}
+			])
+			return parseFetchedUpdates(result, 'messages')
+		},
+		/**
+		 * fetch the view & reaction counts of a channel's posts
+		 * @param since unix timestamp, only fetch posts with engagement since then
+		 */
+		newsletterFetchUpdates: async(jid: string, count: number, after?: number, since?: number) => {
+			const result = await newsletterQuery(jid, 'get', [
+				{
+					tag: 'message_updates',
+					attrs: {
+						count: count.toString(),
+						...(after ? { after: after.toString() } : { }),
+						...(since ? { since: since.toString() } : { })
+					}
+				}
+			])
+			return parseFetchedUpdates(result, 'updates')
+		},
+		/**
+		 * receive live view & reaction counts of a channel's posts, as `newsletter.*` events
+		 * @returns how long the subscription lasts, in seconds
+		 */
+		subscribeNewsletterUpdates: async(jid: string) => {
+			const result = await newsletterQuery(jid, 'set', [{ tag: 'live_updates', attrs: { } }])
+			const duration = getBinaryNodeChild(result, 'live_updates')?.attrs.duration
+			return duration ? +duration : undefined
+		}
+	}
+}
+
+/** @returns the data at the given path of a mex query's result */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const parseMexResult = (node: BinaryNode, path: NewsletterResultPath): any => {
+	const content = getBinaryNodeChild(node, 'result')?.content
+	const result = content ? JSON.parse(content.toString()) : undefined
+	if(result?.errors?.length) {
+		const [error] = result.errors
+		throw new Boom(error.message || 'mex query failed', {
+			statusCode: +error.extensions?.error_code || 400,
+			data: result.errors
+		})
+	}
+
+	const data = result?.data?.[path]
+	if(!data) {
+		throw new Boom('Unexpected mex query result', { statusCode: 500, data: result })
+	}
+
+	return data
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const extractNewsletterThreadMetadata = (thread: any): Partial<NewsletterMetadata> => {
+	const metadata: Partial<NewsletterMetadata> = { }
+	if(thread?.name) {
+		metadata.name = thread.name.text
+		metadata.nameTime = +thread.name.update_time || undefined
+	}
+
+	if(thread?.description) {
+		metadata.description = thread.description.text
+		metadata.descriptionTime = +thread.description.update_time || undefined
+	}
+
+	if(thread?.settings?.reaction_codes) {
+		metadata.reactionMode = thread.settings.reaction_codes.value
+	}
+
+	if('picture' in (thread || { })) {
+		metadata.picture = thread.picture?.direct_path || undefined
+	}
+
+	return metadata
+}
+
+export const extractNewsletterMetadata = (node: BinaryNode, path: NewsletterResultPath.CREATE | NewsletterResultPath.NEWSLETTER) => {
+	const data = parseMexResult(node, path)
+	const thread = data.thread_metadata
+	const metadata: NewsletterMetadata = {
+		id: data.id,
+		state: data.state?.type,
+		name: thread.name?.text,
+		...extractNewsletterThreadMetadata(thread),
+		invite: thread.invite,
+		handle: thread.handle || undefined,
+		preview: thread.preview?.direct_path || undefined,
+		subscribers: thread.subscribers_count ? +thread.subscribers_count : undefined,
+		verification: thread.verification,
+		creation: thread.creation_time ? +thread.creation_time : undefined,
+		viewer: data.viewer_metadata
+			? { mute: data.viewer_metadata.mute, role: data.viewer_metadata.role }
+			: undefined
+	}
+	return metadata
+}
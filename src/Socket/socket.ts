@@ -62,6 +62,7 @@ export const makeSocket = (config: SocketConfig) => {
 		transactionOpts,
 		qrTimeout,
 		makeSignalRepository,
+		socketClient: SocketClient = WebSocketClient,
 	} = config
 
 	if(printQRInTerminal) {
@@ -74,7 +75,7 @@ export const makeSocket = (config: SocketConfig) => {
 		url.searchParams.append('ED', authState.creds.routingInfo.toString('base64url'))
 	}
 
-	const ws = new WebSocketClient(url, config)
+	const ws = new SocketClient(url, config)
 
 	ws.connect()
 
@@ -0,0 +1,116 @@
+import { Boom } from '@hapi/boom'
+import { DEFAULT_CONNECTION_CONFIG, DEFAULT_RECONNECT_CONFIG } from '../Defaults'
+import { BaileysEventMap, DisconnectReason, SupervisedSocketConfig } from '../Types'
+import { makeEventBuffer } from '../Utils'
+import makeWASocket from '.'
+
+type WASocket = ReturnType<typeof makeWASocket>
+
+/** the session cannot be resumed after these, reconnecting would be pointless */
+const TERMINAL_DISCONNECT_REASONS = new Set<number>([
+	DisconnectReason.loggedOut,
+	DisconnectReason.forbidden,
+	DisconnectReason.connectionReplaced
+])
+
+/**
+ * creates a socket that reconnects by itself whenever the connection drops,
+ * backing off exponentially between attempts. Stops once the session is logged out,
+ * banned or replaced by another connection.
+ *
+ * Events of every socket are forwarded to the same `ev`,
+ * so listeners only need to be attached once
+ */
+export const makeSupervisedSocket = (config: SupervisedSocketConfig) => {
+	const { reconnect, ...socketConfig } = config
+	const {
+		initialDelayMs,
+		maxDelayMs,
+		factor,
+		jitter,
+		maxAttempts
+	} = { ...DEFAULT_RECONNECT_CONFIG, ...reconnect }
+	const logger = (config.logger || DEFAULT_CONNECTION_CONFIG.logger).child({ class: 'supervisor' })
+	const ev = makeEventBuffer(logger)
+
+	let socket: WASocket
+	let unbind: () => void
+	let attempts = 0
+	let reconnectTimeout: NodeJS.Timeout | undefined
+	let ended = false
+
+	const computeDelay = () => {
+		const delay = Math.min(maxDelayMs, initialDelayMs * factor ** attempts)
+		return Math.round(delay * (1 - jitter * Math.random()))
+	}
+
+	const onClose = (error: Error | undefined) => {
+		unbind()
+		if(ended) {
+			return
+		}
+
+		const statusCode = (error as Boom | undefined)?.output?.statusCode
+		if(statusCode && TERMINAL_DISCONNECT_REASONS.has(statusCode)) {
+			logger.info({ statusCode }, 'session cannot be resumed, not reconnecting')
+			ended = true
+			return
+		}
+
+		if(typeof maxAttempts !== 'undefined' && attempts >= maxAttempts) {
+			logger.warn({ statusCode, attempts }, 'exhausted reconnect attempts')
+			ended = true
+			return
+		}
+
+		let delay = 0
+		// WA asks for a restart after pairing, that's not a failure
+		if(statusCode !== DisconnectReason.restartRequired) {
+			delay = computeDelay()
+			attempts += 1
+		}
+
+		logger.info({ statusCode, attempts, delay }, 'connection closed, reconnecting')
+		reconnectTimeout = setTimeout(connect, delay)
+	}
+
+	const connect = () => {
+		reconnectTimeout = undefined
+		socket = makeWASocket(socketConfig)
+		unbind = socket.ev.process(events => {
+			// forward as a single batch, so the events stay consolidated
+			ev.buffer()
+			for(const key in events) {
+				const event = key as keyof BaileysEventMap
+				ev.emit(event, events[event]!)
+			}
+
+			ev.flush()
+
+			const update = events['connection.update']
+			if(update?.connection === 'open') {
+				attempts = 0
+			} else if(update?.connection === 'close') {
+				onClose(update.lastDisconnect?.error)
+			}
+		})
+	}
+
+	connect()
+
+	return {
+		ev,
+		/** the socket currently in use, replaced on every reconnect */
+		get socket() {
+			return socket
+		},
+		/** is the supervisor still reconnecting dropped connections */
+		isActive: () => !ended,
+		/** stops reconnecting & closes the current socket */
+		end: (error?: Error) => {
+			ended = true
+			clearTimeout(reconnectTimeout)
+			socket.end(error)
+		}
+	}
+}
@@ -0,0 +1,3 @@
+import makeInMemoryStore from './make-in-memory-store'
+export * from './make-in-memory-store'
+export { makeInMemoryStore }
@@ -0,0 +1,465 @@
+import { readFileSync, existsSync, writeFileSync } from 'fs'
+import { proto } from '../../WAProto'
+import { DEFAULT_CONNECTION_CONFIG } from '../Defaults'
+import type makeWASocket from '../Socket'
+import type { BaileysEventMap, Chat, ConnectionState, Contact, GroupMetadata, Label, LabelAssociation, PresenceData, WAMessage, WAMessageCursor, WAMessageKey } from '../Types'
+import { BaileysBufferableEventEmitter, BufferJSON, toNumber, updateMessageWithEventResponse, updateMessageWithPollUpdate, updateMessageWithReaction, updateMessageWithReceipt } from '../Utils'
+import { ILogger } from '../Utils/logger'
+import { jidNormalizedUser } from '../WABinary'
+import makeOrderedDictionary from './make-ordered-dictionary'
+import makeSortedDictionary, { Comparable } from './make-sorted-dictionary'
+
+type WASocket = ReturnType<typeof makeWASocket>
+
+/**
+ * sorts chats reverse-chronologically,
+ * optionally placing pinned chats first & archived chats last
+ * @param pin should pinned chats be placed first
+ */
+export const waChatKey = (pin: boolean): Comparable<Chat> => ({
+	key: c => (
+		(pin ? (c.pinned ? '1' : '0') : '')
+		+ (c.archived ? '0' : '1')
+		+ toNumber(c.conversationTimestamp).toString(16).padStart(8, '0')
+		+ c.id
+	),
+	compare: (k1, k2) => k2.localeCompare(k1)
+})
+
+export const waMessageID = (m: WAMessage) => m.key.id || ''
+
+export type BaileysInMemoryStoreConfig = {
+	/** how to sort chats, defaults to reverse-chronological with pinned chats first */
+	chatKey?: Comparable<Chat>
+	logger?: ILogger
+	/** socket to fetch profile pictures & group metadata with */
+	socket?: WASocket
+}
+
+const makeMessagesDictionary = () => makeOrderedDictionary(waMessageID)
+
+const labelAssociationKey = (association: LabelAssociation) => (
+	'messageId' in association
+		? `${association.labelId},${association.chatId},${association.messageId}`
+		: `${association.labelId},${association.chatId}`
+)
+
+export default (config: BaileysInMemoryStoreConfig) => {
+	const socket = config.socket
+	const chatKey = config.chatKey || waChatKey(true)
+	const logger = config.logger || DEFAULT_CONNECTION_CONFIG.logger.child({ stream: 'in-mem-store' })
+
+	const chats = makeSortedDictionary<Chat>(chatKey, c => c.id)
+	const messages: { [_: string]: ReturnType<typeof makeMessagesDictionary> } = { }
+	const contacts: { [_: string]: Contact } = { }
+	const groupMetadata: { [_: string]: GroupMetadata } = { }
+	const presences: { [id: string]: { [participant: string]: PresenceData } } = { }
+	const labels: { [id: string]: Label } = { }
+	const labelAssociations: { [key: string]: LabelAssociation } = { }
+	const state: ConnectionState = { connection: 'close' }
+
+	const assertMessageList = (jid: string) => {
+		if(!messages[jid]) {
+			messages[jid] = makeMessagesDictionary()
+		}
+
+		return messages[jid]
+	}
+
+	/** @returns the IDs of the contacts that were present before & not part of the upsert */
+	const contactsUpsert = (newContacts: Contact[]) => {
+		const oldContacts = new Set(Object.keys(contacts))
+		for(const contact of newContacts) {
+			oldContacts.delete(contact.id)
+			contacts[contact.id] = Object.assign(contacts[contact.id] || { }, contact)
+		}
+
+		return oldContacts
+	}
+
+	const groupsUpsert = (newGroups: GroupMetadata[]) => {
+		for(const group of newGroups) {
+			groupMetadata[group.id] = Object.assign(groupMetadata[group.id] || { }, group)
+		}
+	}
+
+	const handlers: { [E in keyof BaileysEventMap]?: (data: BaileysEventMap[E]) => void | Promise<void> } = {
+		'connection.update': update => {
+			Object.assign(state, update)
+		},
+		'messaging-history.set': ({ chats: newChats, contacts: newContacts, messages: newMessages, isLatest, syncType }) => {
+			const isOnDemand = syncType === proto.HistorySync.HistorySyncType.ON_DEMAND
+			if(isLatest && !isOnDemand) {
+				chats.clear()
+				for(const id in messages) {
+					delete messages[id]
+				}
+			}
+
+			const chatsAdded = chats.insertIfAbsent(...newChats).length
+			logger.debug({ chatsAdded }, 'synced chats')
+
+			const oldContacts = contactsUpsert(newContacts)
+			if(isLatest && !isOnDemand) {
+				for(const jid of oldContacts) {
+					delete contacts[jid]
+				}
+			}
+
+			logger.debug({ deletedContacts: isLatest ? oldContacts.size : 0, newContacts: newContacts.length }, 'synced contacts')
+
+			// history is sent reverse chronologically,
+			// so each message is older than the ones already in the list
+			for(const msg of newMessages) {
+				const jid = jidNormalizedUser(msg.key.remoteJid!)
+				const list = assertMessageList(jid)
+				list.upsert(msg, 'prepend')
+			}
+
+			logger.debug({ messages: newMessages.length }, 'synced messages')
+		},
+		'contacts.upsert': newContacts => {
+			contactsUpsert(newContacts)
+		},
+		'contacts.update': async updates => {
+			for(const update of updates) {
+				const contact = contacts[update.id!]
+				if(!contact) {
+					logger.debug({ update }, 'got update for non-existant contact')
+					continue
+				}
+
+				const { imgUrl, ...rest } = update
+				Object.assign(contact, rest)
+				if(imgUrl === 'changed') {
+					contact.imgUrl = socket
+						? await socket.profilePictureUrl(contact.id).catch(() => undefined)
+						: undefined
+				} else if(imgUrl === 'removed') {
+					delete contact.imgUrl
+				} else if(typeof imgUrl !== 'undefined') {
+					contact.imgUrl = imgUrl
+				}
+			}
+		},
+		'chats.upsert': newChats => {
+			chats.upsert(...newChats)
+		},
+		'chats.update': updates => {
+			for(let update of updates) {
+				const result = chats.update(update.id!, chat => {
+					if(update.unreadCount! > 0) {
+						update = { ...update }
+						update.unreadCount = (chat.unreadCount || 0) + update.unreadCount!
+					}
+
+					Object.assign(chat, update)
+				})
+				if(!result) {
+					logger.debug({ update }, 'got update for non-existant chat')
+				}
+			}
+		},
+		'chats.delete': deletions => {
+			for(const id of deletions) {
+				chats.deleteById(id)
+			}
+		},
+		'presence.update': ({ id, presences: update }) => {
+			presences[id] = presences[id] || { }
+			Object.assign(presences[id], update)
+		},
+		'contacts.delete': ids => {
+			for(const id of ids) {
+				delete contacts[id]?.name
+			}
+		},
+		'messages.upsert': ({ messages: newMessages, type }) => {
+			for(const msg of newMessages) {
+				const jid = jidNormalizedUser(msg.key.remoteJid!)
+				const list = assertMessageList(jid)
+				list.upsert(msg, 'append')
+
+				if(type === 'notify' && !chats.get(jid)) {
+					chats.upsert({
+						id: jid,
+						conversationTimestamp: toNumber(msg.messageTimestamp),
+						unreadCount: 1
+					})
+				}
+			}
+		},
+		'messages.update': updates => {
+			for(const { update: { pollUpdates, eventResponses, ...update }, key } of updates) {
+				const list = assertMessageList(jidNormalizedUser(key.remoteJid!))
+				const stored = (pollUpdates || eventResponses) && list.get(key.id!)
+				if(stored) {
+					for(const pollUpdate of pollUpdates || []) {
+						updateMessageWithPollUpdate(stored, pollUpdate)
+					}
+
+					for(const eventResponse of eventResponses || []) {
+						updateMessageWithEventResponse(stored, eventResponse)
+					}
+				}
+
+				if(update?.status) {
+					const listStatus = list.get(key.id!)?.status
+					if(listStatus && update.status <= listStatus) {
+						logger.debug({ update, storedStatus: listStatus }, 'status stored newer than update')
+						delete update.status
+					}
+				}
+
+				const result = list.updateAssign(key.id!, update)
+				if(!result) {
+					logger.debug({ update }, 'got update for non-existent message')
+				}
+			}
+		},
+		'messages.reaction': reactions => {
+			for(const { key, reaction } of reactions) {
+				const msg = messages[jidNormalizedUser(key.remoteJid!)]?.get(key.id!)
+				if(msg) {
+					updateMessageWithReaction(msg, reaction)
+				}
+			}
+		},
+		'messages.delete': item => {
+			if('all' in item) {
+				messages[item.jid]?.clear()
+			} else {
+				const jid = jidNormalizedUser(item.keys[0].remoteJid!)
+				const list = messages[jid]
+				if(list) {
+					const idSet = new Set(item.keys.map(k => k.id))
+					list.filter(m => !idSet.has(m.key.id))
+				}
+			}
+		},
+		'message-receipt.update': updates => {
+			for(const { key, receipt } of updates) {
+				const msg = messages[jidNormalizedUser(key.remoteJid!)]?.get(key.id!)
+				if(msg) {
+					updateMessageWithReceipt(msg, receipt)
+				}
+			}
+		},
+		'labels.edit': label => {
+			if(label.deleted) {
+				delete labels[label.id]
+			} else {
+				labels[label.id] = label
+			}
+		},
+		'labels.association': ({ association, type }) => {
+			const key = labelAssociationKey(association)
+			if(type === 'add') {
+				labelAssociations[key] = association
+			} else {
+				delete labelAssociations[key]
+			}
+		},
+		'groups.upsert': newGroups => {
+			groupsUpsert(newGroups)
+		},
+		'groups.update': updates => {
+			for(const update of updates) {
+				const id = update.id!
+				if(groupMetadata[id]) {
+					Object.assign(groupMetadata[id], update)
+				} else {
+					logger.debug({ update }, 'got update for non-existant group metadata')
+				}
+			}
+		},
+		'group-participants.update': ({ id, participants, action }) => {
+			const metadata = groupMetadata[id]
+			if(!metadata) {
+				return
+			}
+
+			switch (action) {
+			case 'add':
+				metadata.participants.push(...participants.map(id => ({ id, admin: null })))
+				break
+			case 'demote':
+			case 'promote':
+				for(const participant of metadata.participants) {
+					if(participants.includes(participant.id)) {
+						participant.admin = action === 'promote' ? 'admin' : null
+					}
+				}
+
+				break
+			case 'remove':
+				metadata.participants = metadata.participants.filter(p => !participants.includes(p.id))
+				break
+			}
+
+			metadata.size = metadata.participants.length
+		}
+	}
+
+	/**
+	 * binds the store to the event emitter of a socket,
+	 * processes events in batches as they're released by the buffer
+	 * @returns function to unbind the store
+	 */
+	const bind = (ev: BaileysBufferableEventEmitter) => (
+		ev.process(async events => {
+			for(const key in events) {
+				const event = key as keyof BaileysEventMap
+				const handler = handlers[event] as ((data: unknown) => void | Promise<void>) | undefined
+				if(handler) {
+					try {
+						await handler(events[event])
+					} catch(error) {
+						logger.error({ trace: error.stack, event }, 'error in handling event in store')
+					}
+				}
+			}
+		})
+	)
+
+	const toJSON = () => ({
+		chats: chats.all(),
+		contacts,
+		messages,
+		groupMetadata,
+		labels,
+		labelAssociations: Object.values(labelAssociations)
+	})
+
+	const fromJSON = (json: {
+		chats: Chat[]
+		contacts: { [id: string]: Contact }
+		messages: { [id: string]: WAMessage[] }
+		groupMetadata?: { [id: string]: GroupMetadata }
+		labels?: { [id: string]: Label }
+		labelAssociations?: LabelAssociation[]
+	}) => {
+		chats.upsert(...json.chats)
+		contactsUpsert(Object.values(json.contacts))
+		groupsUpsert(Object.values(json.groupMetadata || { }))
+		Object.assign(labels, json.labels)
+		for(const association of json.labelAssociations || []) {
+			labelAssociations[labelAssociationKey(association)] = association
+		}
+
+		for(const jid in json.messages) {
+			const list = assertMessageList(jid)
+			for(const msg of json.messages[jid]) {
+				list.upsert(proto.WebMessageInfo.fromObject(msg), 'append')
+			}
+		}
+	}
+
+	const loadMessage = async(jid: string, id: string) => messages[jidNormalizedUser(jid)]?.get(id)
+
+	/** @returns the labels on a chat, or on one of its messages if messageId is given */
+	const getChatLabels = (chatId: string, messageId?: string) => {
+		const result: Label[] = []
+		for(const association of Object.values(labelAssociations)) {
+			const associationMsgId = 'messageId' in association ? association.messageId : undefined
+			if(association.chatId === chatId && associationMsgId === messageId && labels[association.labelId]) {
+				result.push(labels[association.labelId])
+			}
+		}
+
+		return result
+	}
+
+	return {
+		chats,
+		contacts,
+		messages,
+		groupMetadata,
+		state,
+		presences,
+		labels,
+		getChatLabels,
+		bind,
+		/** loads messages from the store, if not found -- uses the legacy connection */
+		loadMessages: async(jid: string, count: number, cursor?: WAMessageCursor) => {
+			const list = assertMessageList(jidNormalizedUser(jid))
+			const mode = !cursor || 'before' in cursor ? 'before' : 'after'
+			const cursorKey = !!cursor ? ('before' in cursor ? cursor.before : cursor.after) : undefined
+			const cursorValue = cursorKey ? list.get(cursorKey.id!) : undefined
+
+			let result: WAMessage[]
+			if(mode === 'before' && (!cursorKey || cursorValue)) {
+				if(cursorValue) {
+					const msgIdx = list.array.findIndex(m => m.key.id === cursorKey?.id)
+					result = list.array.slice(0, msgIdx)
+				} else {
+					result = list.array
+				}
+
+				const diff = count - result.length
+				if(diff < 0) {
+					// get the last X messages
+					result = result.slice(-count)
+				}
+			} else {
+				result = []
+			}
+
+			return result
+		},
+		loadMessage,
+		mostRecentMessage: async(jid: string) => {
+			const list = messages[jidNormalizedUser(jid)]?.array
+			return list?.[list.length - 1]
+		},
+		fetchImageUrl: async(jid: string, sock: WASocket | undefined = socket) => {
+			const contact = contacts[jid]
+			if(!contact) {
+				return sock?.profilePictureUrl(jid)
+			}
+
+			if(typeof contact.imgUrl === 'undefined') {
+				contact.imgUrl = await sock?.profilePictureUrl(jid)
+			}
+
+			return contact.imgUrl
+		},
+		fetchGroupMetadata: async(jid: string, sock: WASocket | undefined = socket) => {
+			if(!groupMetadata[jid] && sock) {
+				groupMetadata[jid] = await sock.groupMetadata(jid)
+			}
+
+			return groupMetadata[jid]
+		},
+		fetchMessageReceipts: async({ remoteJid, id }: WAMessageKey) => {
+			const msg = await loadMessage(remoteJid!, id!)
+			return msg?.userReceipt
+		},
+		/**
+		 * ready to use implementation of SocketConfig.getMessage,
+		 * returns the content of a message in the store
+		 */
+		getMessage: async(key: WAMessageKey): Promise<proto.IMessage | undefined> => {
+			const msg = await loadMessage(key.remoteJid!, key.id!)
+			return msg?.message || undefined
+		},
+		/**
+		 * ready to use implementation of SocketConfig.cachedGroupMetadata,
+		 * returns the metadata of a group in the store
+		 */
+		cachedGroupMetadata: async(jid: string): Promise<GroupMetadata | undefined> => groupMetadata[jid],
+		toJSON,
+		fromJSON,
+		writeToFile: (path: string) => {
+			writeFileSync(path, JSON.stringify(toJSON(), BufferJSON.replacer))
+		},
+		readFromFile: (path: string) => {
+			if(existsSync(path)) {
+				logger.debug({ path }, 'reading from file')
+				const jsonStr = readFileSync(path, { encoding: 'utf-8' })
+				const json = JSON.parse(jsonStr, BufferJSON.reviver)
+				fromJSON(json)
+			}
+		}
+	}
+}
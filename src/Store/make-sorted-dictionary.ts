@@ -0,0 +1,117 @@
+/** defines how items in a sorted dictionary are ordered */
+export type Comparable<T> = {
+	/** generate the sort key of the item */
+	key: (item: T) => string
+	/** compare two sort keys, a negative value places k1 before k2 */
+	compare: (k1: string, k2: string) => number
+}
+
+/**
+ * A dictionary that keeps its items sorted by a key derived from the item.
+ * Items are looked up by ID, and re-positioned whenever they are updated
+ * @param comparable how to sort the items
+ * @param idGetter get the unique ID of an item
+ */
+function makeSortedDictionary<T>({ key, compare }: Comparable<T>, idGetter: (item: T) => string) {
+	const array: T[] = []
+	const dict: { [_: string]: T } = { }
+
+	const get = (id: string): T | undefined => dict[id]
+
+	/** binary search for the index the item should be inserted at */
+	const insertionIndex = (item: T) => {
+		const itemKey = key(item)
+		let low = 0
+		let high = array.length
+		while(low < high) {
+			const mid = (low + high) >>> 1
+			if(compare(key(array[mid]), itemKey) <= 0) {
+				low = mid + 1
+			} else {
+				high = mid
+			}
+		}
+
+		return low
+	}
+
+	const insert = (item: T) => {
+		array.splice(insertionIndex(item), 0, item)
+		dict[idGetter(item)] = item
+	}
+
+	const deleteById = (id: string) => {
+		const item = dict[id]
+		if(!item) {
+			return undefined
+		}
+
+		const idx = array.indexOf(item)
+		if(idx >= 0) {
+			array.splice(idx, 1)
+		}
+
+		delete dict[id]
+		return item
+	}
+
+	/**
+	 * update an item in place & re-position it if its sort key changed
+	 * @returns the updated item, if it exists
+	 */
+	const update = (id: string, updater: (item: T) => void) => {
+		const item = deleteById(id)
+		if(item) {
+			updater(item)
+			insert(item)
+		}
+
+		return item
+	}
+
+	return {
+		array,
+		get,
+		update,
+		deleteById,
+		/** insert the items, merging into any existing items with the same ID */
+		upsert: (...items: T[]) => {
+			for(const item of items) {
+				const existing = deleteById(idGetter(item))
+				insert(existing ? Object.assign(existing, item) : item)
+			}
+		},
+		/**
+		 * insert only the items that are not present yet
+		 * @returns the items that were inserted
+		 */
+		insertIfAbsent: (...items: T[]) => {
+			const inserted: T[] = []
+			for(const item of items) {
+				if(!dict[idGetter(item)]) {
+					insert(item)
+					inserted.push(item)
+				}
+			}
+
+			return inserted
+		},
+		/** get a page of items, after the given cursor ID */
+		paginated: (cursorId: string | undefined, limit: number) => {
+			const cursor = cursorId ? dict[cursorId] : undefined
+			const start = cursor ? array.indexOf(cursor) + 1 : 0
+			return array.slice(start, start + limit)
+		},
+		all: () => [...array],
+		count: () => array.length,
+		clear: () => {
+			array.splice(0, array.length)
+			for(const id of Object.keys(dict)) {
+				delete dict[id]
+			}
+		},
+		toJSON: () => array
+	}
+}
+
+export default makeSortedDictionary
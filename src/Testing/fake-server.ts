@@ -0,0 +1,881 @@
+import { Boom } from '@hapi/boom'
+import { randomBytes } from 'crypto'
+import { once } from 'events'
+import { AddressInfo } from 'net'
+import { WebSocketServer } from 'ws'
+import { proto } from '../../WAProto'
+import { DEFAULT_CONNECTION_CONFIG, KEY_BUNDLE_TYPE } from '../Defaults'
+import { makeLibSignalRepository } from '../Signal/libsignal'
+import { MockServerConnection, MockTransport } from '../Socket/Client'
+import { SignalCreds, SignalDataTypeMap, SignalKeyStore, SignalRepository } from '../Types'
+import {
+	Curve,
+	encodeBigEndian,
+	encodeWAMessage,
+	generateMessageID,
+	generateRegistrationId,
+	hmacSign,
+	parseAndInjectE2ESessions,
+	signedKeyPair,
+	unixTimestampSeconds
+} from '../Utils'
+import { ILogger } from '../Utils/logger'
+import {
+	areJidsSameUser,
+	BinaryNode,
+	BinaryNodeAttributes,
+	getAllBinaryNodeChildren,
+	getBinaryNodeChild,
+	getBinaryNodeChildBuffer,
+	getBinaryNodeChildren,
+	getBinaryNodeChildUInt,
+	isJidGroup,
+	jidDecode,
+	jidEncode,
+	jidNormalizedUser,
+	S_WHATSAPP_NET
+} from '../WABinary'
+
+type FakeSignedPreKey = { keyId: number, publicKey: Uint8Array, signature: Uint8Array }
+
+type FakeKeyBundle = {
+	registrationId: number
+	identityKey: Uint8Array
+	signedPreKey: FakeSignedPreKey
+	preKeys: Map<number, Uint8Array>
+}
+
+export type FakeDevice = {
+	jid: string
+	noiseKey: Uint8Array
+	bundle: FakeKeyBundle
+	/** the connection the device is logged in with */
+	conn?: MockServerConnection
+	/** stanzas waiting for the device to come online */
+	offline: BinaryNode[]
+	/** has the phone shared the app state keys with the device */
+	hasAppStateKeys: boolean
+}
+
+export type FakeAccount = {
+	user: string
+	/**
+	 * the primary phone (device 0), signs the identity of every companion device
+	 * & shares the app state keys with it. Messages sent to the phone are dropped
+	 */
+	phone: {
+		creds: SignalCreds
+		repository: SignalRepository
+		appStateKeyId: Uint8Array
+		appStateKey: Uint8Array
+	}
+	devices: Map<number, FakeDevice>
+	nextDeviceId: number
+}
+
+export type FakeGroup = {
+	id: string
+	subject: string
+	creator: string
+	creation: number
+	/** user jid -> admin type */
+	participants: Map<string, 'admin' | 'superadmin' | null>
+}
+
+type PendingRegistration = {
+	conn: MockServerConnection
+	refs: string[]
+	noiseKey: Uint8Array
+	bundle: FakeKeyBundle
+	/** set once the device is paired, while the client signs its identity */
+	device?: FakeDevice
+	pairIqId?: string
+}
+
+export type FakeWAServerOptions = {
+	/** port to listen on, a random free port by default */
+	port?: number
+	host?: string
+	logger?: ILogger
+}
+
+const PRIVACY_SETTINGS = {
+	last: 'all',
+	online: 'all',
+	profile: 'all',
+	status: 'all',
+	groupadd: 'all',
+	readreceipts: 'all',
+	calladd: 'all'
+}
+
+const PHONE_DEVICE_ID = 0
+
+const makeMemoryKeyStore = (): SignalKeyStore => {
+	const data = new Map<string, unknown>()
+	return {
+		get: async(type, ids) => {
+			const dict: { [id: string]: SignalDataTypeMap[typeof type] } = { }
+			for(const id of ids) {
+				const value = data.get(`${type}.${id}`)
+				if(value) {
+					dict[id] = value as SignalDataTypeMap[typeof type]
+				}
+			}
+
+			return dict
+		},
+		set: async(set) => {
+			for(const type in set) {
+				const dict = set[type as keyof SignalDataTypeMap]!
+				for(const id in dict) {
+					if(dict[id]) {
+						data.set(`${type}.${id}`, dict[id])
+					} else {
+						data.delete(`${type}.${id}`)
+					}
+				}
+			}
+		}
+	}
+}
+
+const nodeContentToString = (content: BinaryNode['content']) => (
+	typeof content === 'string' ? content : Buffer.from(content as Uint8Array || []).toString()
+)
+
+/**
+ * a local stand-in for the WA servers, for integration tests that cannot reach the real service.
+ * Speaks the noise handshake & binary node protocol, and implements enough of
+ * pairing, login, pre-key exchange, usync, groups, messages & receipts
+ * for sockets to pair & exchange encrypted 1:1 and group messages with each other.
+ *
+ * Primary phones are simulated by the server: a socket pairs by passing its QR to `pairWithQR`.
+ * Not exported from the package root, import it from `baileys/lib/Testing`
+ * @example
+ * const server = await makeFakeWAServer()
+ * const sock = makeWASocket({ auth, waWebSocketUrl: server.url })
+ * sock.ev.on('connection.update', ({ qr }) => qr && server.pairWithQR(qr, '1234'))
+ */
+export const makeFakeWAServer = async({
+	port = 0,
+	host = '127.0.0.1',
+	logger = DEFAULT_CONNECTION_CONFIG.logger.child({ class: 'fake-server' })
+}: FakeWAServerOptions = { }) => {
+	const accounts = new Map<string, FakeAccount>()
+	const groups = new Map<string, FakeGroup>()
+	const registrations: PendingRegistration[] = []
+	const loggedIn = new Map<MockServerConnection, FakeDevice>()
+
+	const now = () => unixTimestampSeconds().toString()
+
+	const assertAccount = (user: string) => {
+		let account = accounts.get(user)
+		if(!account) {
+			const signedIdentityKey = Curve.generateKeyPair()
+			const creds: SignalCreds = {
+				signedIdentityKey,
+				signedPreKey: signedKeyPair(signedIdentityKey, 1),
+				registrationId: generateRegistrationId()
+			}
+			account = {
+				user,
+				phone: {
+					creds,
+					repository: makeLibSignalRepository({ creds, keys: makeMemoryKeyStore() }),
+					appStateKeyId: randomBytes(6),
+					appStateKey: randomBytes(32)
+				},
+				devices: new Map(),
+				nextDeviceId: 1
+			}
+			accounts.set(user, account)
+		}
+
+		return account
+	}
+
+	const findDevice = (jid: string) => {
+		const decoded = jidDecode(jid)
+		return decoded && accounts.get(decoded.user)?.devices.get(decoded.device || PHONE_DEVICE_ID)
+	}
+
+	const send = (conn: MockServerConnection, node: BinaryNode) => {
+		conn.sendNode(node)
+			.catch(err => logger.warn({ trace: err.stack }, 'failed to send node'))
+	}
+
+	/** sends to the device if it's online, queues the stanza otherwise */
+	const deliver = (device: FakeDevice, node: BinaryNode) => {
+		if(device.conn) {
+			send(device.conn, node)
+		} else {
+			node.attrs.offline = '1'
+			device.offline.push(node)
+		}
+	}
+
+	const iqResult = (iq: BinaryNode, content?: BinaryNode[]): BinaryNode => ({
+		tag: 'iq',
+		attrs: { id: iq.attrs.id, type: 'result', from: iq.attrs.to || S_WHATSAPP_NET },
+		content
+	})
+
+	const iqError = (iq: BinaryNode, code: number, text: string): BinaryNode => ({
+		tag: 'iq',
+		attrs: { id: iq.attrs.id, type: 'error', from: iq.attrs.to || S_WHATSAPP_NET },
+		content: [{ tag: 'error', attrs: { code: code.toString(), text } }]
+	})
+
+	const xmppKey = (tag: 'key' | 'skey', id: number, publicKey: Uint8Array, signature?: Uint8Array): BinaryNode => ({
+		tag,
+		attrs: { },
+		content: [
+			{ tag: 'id', attrs: { }, content: encodeBigEndian(id, 3) },
+			{ tag: 'value', attrs: { }, content: publicKey },
+			...(signature ? [{ tag: 'signature', attrs: { }, content: signature }] : [])
+		]
+	})
+
+	/** builds the bundle for a device & consumes one of its pre-keys */
+	const bundleNode = (jid: string): BinaryNode => {
+		const decoded = jidDecode(jid)
+		const account = decoded && accounts.get(decoded.user)
+		const deviceId = decoded?.device || PHONE_DEVICE_ID
+		let bundle: Omit<FakeKeyBundle, 'preKeys'> | undefined
+		let preKey: BinaryNode | undefined
+		if(account && deviceId === PHONE_DEVICE_ID) {
+			const { registrationId, signedIdentityKey, signedPreKey } = account.phone.creds
+			bundle = {
+				registrationId,
+				identityKey: signedIdentityKey.public,
+				signedPreKey: {
+					keyId: signedPreKey.keyId,
+					publicKey: signedPreKey.keyPair.public,
+					signature: signedPreKey.signature
+				}
+			}
+			// nobody decrypts what's sent to the phone, so throwaway keys will do
+			preKey = xmppKey('key', 1, Curve.generateKeyPair().public)
+		} else {
+			const device = findDevice(jid)
+			bundle = device?.bundle
+			const first = device?.bundle.preKeys.entries().next().value as [number, Uint8Array] | undefined
+			if(first) {
+				device!.bundle.preKeys.delete(first[0])
+				preKey = xmppKey('key', first[0], first[1])
+			}
+		}
+
+		if(!bundle) {
+			return {
+				tag: 'user',
+				attrs: { jid },
+				content: [{ tag: 'error', attrs: { code: '404', text: 'item-not-found' } }]
+			}
+		}
+
+		const { registrationId, identityKey, signedPreKey } = bundle
+		return {
+			tag: 'user',
+			attrs: { jid },
+			content: [
+				{ tag: 'registration', attrs: { }, content: encodeBigEndian(registrationId) },
+				{ tag: 'type', attrs: { }, content: KEY_BUNDLE_TYPE },
+				{ tag: 'identity', attrs: { }, content: identityKey },
+				xmppKey('skey', signedPreKey.keyId, signedPreKey.publicKey, signedPreKey.signature),
+				...(preKey ? [preKey] : [])
+			]
+		}
+	}
+
+	/** encrypts a message from the phone to one of its companion devices */
+	const sendFromPhone = async(account: FakeAccount, device: FakeDevice, message: proto.IMessage) => {
+		const { repository } = account.phone
+		await parseAndInjectE2ESessions(
+			{ tag: 'iq', attrs: { }, content: [{ tag: 'list', attrs: { }, content: [bundleNode(device.jid)] }] },
+			repository
+		)
+		const { type, ciphertext } = await repository.encryptMessage({ jid: device.jid, data: encodeWAMessage(message) })
+		deliver(device, {
+			tag: 'message',
+			attrs: {
+				id: generateMessageID(),
+				from: jidEncode(account.user, 's.whatsapp.net'),
+				type: 'text',
+				category: 'peer',
+				t: now()
+			},
+			content: [{ tag: 'enc', attrs: { v: '2', type }, content: ciphertext }]
+		})
+	}
+
+	/**
+	 * shares the app state keys with a newly paired device,
+	 * the socket holds back events until it has them & has done its initial app state sync
+	 */
+	const shareAppStateKeys = async(account: FakeAccount, device: FakeDevice) => {
+		device.hasAppStateKeys = true
+		const { appStateKeyId, appStateKey } = account.phone
+		await sendFromPhone(account, device, {
+			protocolMessage: {
+				type: proto.Message.ProtocolMessage.Type.APP_STATE_SYNC_KEY_SHARE,
+				appStateSyncKeyShare: {
+					keys: [{
+						keyId: { keyId: appStateKeyId },
+						keyData: {
+							keyData: appStateKey,
+							fingerprint: { rawId: 0, currentIndex: 0, deviceIndexes: [0] },
+							timestamp: Date.now()
+						}
+					}]
+				}
+			}
+		})
+		// there's no history to sync, this only kicks off the initial app state sync
+		await sendFromPhone(account, device, {
+			protocolMessage: {
+				type: proto.Message.ProtocolMessage.Type.HISTORY_SYNC_NOTIFICATION,
+				historySyncNotification: {
+					syncType: proto.Message.HistorySyncNotification.HistorySyncType.NON_BLOCKING_DATA,
+					progress: 100
+				}
+			}
+		})
+	}
+
+	const groupNode = (group: FakeGroup): BinaryNode => ({
+		tag: 'group',
+		attrs: {
+			id: jidDecode(group.id)!.user,
+			subject: group.subject,
+			creation: group.creation.toString(),
+			creator: group.creator,
+			s_t: group.creation.toString(),
+			s_o: group.creator
+		},
+		content: Array.from(group.participants.entries()).map<BinaryNode>(([jid, type]) => ({
+			tag: 'participant',
+			attrs: (type ? { jid, type } : { jid }) as BinaryNodeAttributes
+		}))
+	})
+
+	const handleUSync = (iq: BinaryNode) => {
+		const usync = getBinaryNodeChild(iq, 'usync')
+		const protocols = getAllBinaryNodeChildren(getBinaryNodeChild(usync, 'query')!).map(n => n.tag)
+		const users = getBinaryNodeChildren(getBinaryNodeChild(usync, 'list'), 'user')
+
+		const list = users.map<BinaryNode>(user => {
+			let jid = user.attrs.jid
+			if(!jid) {
+				const phone = nodeContentToString(getBinaryNodeChild(user, 'contact')?.content)
+				jid = jidEncode(phone.replace(/[^0-9]/g, ''), 's.whatsapp.net')
+			}
+
+			const account = accounts.get(jidDecode(jid)!.user)
+			const content: BinaryNode[] = []
+			for(const protocol of protocols) {
+				if(protocol === 'contact') {
+					content.push({ tag: 'contact', attrs: { type: account ? 'in' : 'out' } })
+				} else if(protocol === 'devices') {
+					const devices = account
+						? [
+							{ tag: 'device', attrs: { id: PHONE_DEVICE_ID.toString() } },
+							...Array.from(account.devices.keys()).map(id => (
+								{ tag: 'device', attrs: { id: id.toString(), 'key-index': id.toString() } }
+							))
+						]
+						: []
+					content.push({
+						tag: 'devices',
+						attrs: { },
+						content: [
+							{ tag: 'device-list', attrs: { }, content: devices },
+							{ tag: 'key-index-list', attrs: { ts: now() } }
+						]
+					})
+				}
+			}
+
+			return { tag: 'user', attrs: { jid }, content }
+		})
+
+		return iqResult(iq, [{ tag: 'usync', attrs: { }, content: [{ tag: 'list', attrs: { }, content: list }] }])
+	}
+
+	const handleGroupIq = (device: FakeDevice, iq: BinaryNode) => {
+		const me = jidNormalizedUser(device.jid)
+		const [child] = getAllBinaryNodeChildren(iq)
+		switch (child?.tag) {
+		case 'create':
+			const group: FakeGroup = {
+				id: jidEncode(`120363${Date.now()}`, 'g.us'),
+				subject: child.attrs.subject,
+				creator: me,
+				creation: unixTimestampSeconds(),
+				participants: new Map([[me, 'superadmin']])
+			}
+			for(const { attrs } of getBinaryNodeChildren(child, 'participant')) {
+				group.participants.set(jidNormalizedUser(attrs.jid), null)
+			}
+
+			groups.set(group.id, group)
+			for(const jid of group.participants.keys()) {
+				for(const member of accounts.get(jidDecode(jid)!.user)?.devices.values() || []) {
+					if(member !== device) {
+						deliver(member, {
+							tag: 'notification',
+							attrs: { from: group.id, type: 'w:gp2', id: generateMessageID(), participant: me, t: now() },
+							content: [{ tag: 'create', attrs: { }, content: [groupNode(group)] }]
+						})
+					}
+				}
+			}
+
+			return iqResult(iq, [groupNode(group)])
+		case 'query':
+			const queried = groups.get(iq.attrs.to)
+			return queried
+				? iqResult(iq, [groupNode(queried)])
+				: iqError(iq, 404, 'item-not-found')
+		case 'participating':
+			const participating = Array.from(groups.values()).filter(g => g.participants.has(me))
+			return iqResult(iq, [{ tag: 'groups', attrs: { }, content: participating.map(g => groupNode(g)) }])
+		case 'leave':
+			for(const { attrs } of getBinaryNodeChildren(child, 'group')) {
+				groups.get(attrs.id)?.participants.delete(me)
+			}
+
+			return iqResult(iq)
+		default:
+			return iqResult(iq)
+		}
+	}
+
+	const handleEncryptIq = (device: FakeDevice, iq: BinaryNode) => {
+		if(getBinaryNodeChild(iq, 'count')) {
+			return iqResult(iq, [{ tag: 'count', attrs: { value: device.bundle.preKeys.size.toString() } }])
+		}
+
+		const keyNode = getBinaryNodeChild(iq, 'key')
+		if(keyNode) {
+			const users = getBinaryNodeChildren(keyNode, 'user').map(({ attrs }) => bundleNode(attrs.jid))
+			return iqResult(iq, [{ tag: 'list', attrs: { }, content: users }])
+		}
+
+		const list = getBinaryNodeChild(iq, 'list')
+		if(list) {
+			for(const key of getBinaryNodeChildren(list, 'key')) {
+				device.bundle.preKeys.set(getBinaryNodeChildUInt(key, 'id', 3)!, getBinaryNodeChildBuffer(key, 'value')!)
+			}
+
+			const skey = getBinaryNodeChild(iq, 'skey')
+			if(skey) {
+				device.bundle.signedPreKey = {
+					keyId: getBinaryNodeChildUInt(skey, 'id', 3)!,
+					publicKey: getBinaryNodeChildBuffer(skey, 'value')!,
+					signature: getBinaryNodeChildBuffer(skey, 'signature')!
+				}
+			}
+		}
+
+		return iqResult(iq)
+	}
+
+	const handleIq = (conn: MockServerConnection, iq: BinaryNode) => {
+		// the client's response to an iq of ours
+		if(iq.attrs.type === 'result' || iq.attrs.type === 'error') {
+			const registration = registrations.find(r => r.conn === conn && r.pairIqId === iq.attrs.id)
+			if(registration) {
+				completePairing(registration)
+			}
+
+			return
+		}
+
+		const device = loggedIn.get(conn)
+		if(!device) {
+			send(conn, iqError(iq, 401, 'not-authorized'))
+			return
+		}
+
+		let response: BinaryNode
+		switch (iq.attrs.xmlns) {
+		case 'usync':
+			response = handleUSync(iq)
+			break
+		case 'encrypt':
+			response = handleEncryptIq(device, iq)
+			break
+		case 'w:g2':
+			response = handleGroupIq(device, iq)
+			break
+		case 'privacy':
+			response = iq.attrs.type === 'get'
+				? iqResult(iq, [{
+					tag: 'privacy',
+					attrs: { },
+					content: Object.entries(PRIVACY_SETTINGS).map(([name, value]) => ({ tag: 'category', attrs: { name, value } }))
+				}])
+				: iqResult(iq)
+			break
+		case 'w:sync:app:state':
+			// the app state is always empty
+			const collections = getBinaryNodeChildren(getBinaryNodeChild(iq, 'sync'), 'collection')
+			response = iqResult(iq, [{
+				tag: 'sync',
+				attrs: { },
+				content: collections.map(({ attrs }) => ({
+					tag: 'collection',
+					attrs: { name: attrs.name, version: attrs.version, 'has_more_patches': 'false' }
+				}))
+			}])
+			break
+		case 'blocklist':
+			response = iqResult(iq, [{ tag: 'list', attrs: { } }])
+			break
+		case 'w':
+			response = iqResult(iq, [{ tag: 'props', attrs: { protocol: '2', hash: '' } }])
+			break
+		case 'md':
+			if(getBinaryNodeChild(iq, 'remove-companion-device')) {
+				const { user, device: deviceId } = jidDecode(device.jid)!
+				accounts.get(user)?.devices.delete(deviceId!)
+			}
+
+			response = iqResult(iq)
+			break
+		default:
+			response = iqResult(iq)
+			break
+		}
+
+		send(conn, response)
+	}
+
+	const handleMessage = (device: FakeDevice, node: BinaryNode) => {
+		const { to, id, participant: onlyTo } = node.attrs
+		const t = now()
+		send(device.conn!, { tag: 'ack', attrs: { class: 'message', id, from: to, t } })
+
+		const encByDevice = new Map<string, BinaryNode>()
+		for(const toNode of getBinaryNodeChildren(getBinaryNodeChild(node, 'participants'), 'to')) {
+			encByDevice.set(toNode.attrs.jid, getBinaryNodeChild(toNode, 'enc')!)
+		}
+
+		const directEnc = getBinaryNodeChildren(node, 'enc')
+		const deviceIdentity = getBinaryNodeChild(node, 'device-identity')
+		const baseAttrs: BinaryNodeAttributes = { id, t }
+		if(node.attrs.type) {
+			baseAttrs.type = node.attrs.type
+		}
+
+		if(isJidGroup(to)) {
+			const group = groups.get(to)
+			if(!group) {
+				logger.warn({ to }, 'message to unknown group')
+				return
+			}
+
+			for(const jid of group.participants.keys()) {
+				for(const member of accounts.get(jidDecode(jid)!.user)?.devices.values() || []) {
+					if(member === device || (onlyTo && member.jid !== onlyTo)) {
+						continue
+					}
+
+					// the sender key distribution must come before the message it's for
+					const enc = encByDevice.get(member.jid)
+					deliver(member, {
+						tag: 'message',
+						attrs: { ...baseAttrs, from: to, participant: device.jid },
+						content: [
+							...(enc ? [enc] : []),
+							...directEnc,
+							...(enc && deviceIdentity ? [deviceIdentity] : [])
+						]
+					})
+				}
+			}
+
+			return
+		}
+
+		// messages sent to a specific device only have the device as "to"
+		if(!encByDevice.size && directEnc.length) {
+			encByDevice.set(to, directEnc[0])
+		}
+
+		for(const [jid, enc] of encByDevice) {
+			const target = findDevice(jid)
+			if(!target || target === device) {
+				continue
+			}
+
+			const attrs: BinaryNodeAttributes = { ...baseAttrs, from: device.jid }
+			if(areJidsSameUser(jid, device.jid)) {
+				attrs.recipient = node.attrs.recipient || jidNormalizedUser(to)
+			}
+
+			deliver(target, {
+				tag: 'message',
+				attrs,
+				content: [enc, ...(deviceIdentity ? [deviceIdentity] : [])]
+			})
+		}
+	}
+
+	const handleReceipt = (device: FakeDevice, node: BinaryNode) => {
+		const { id, to, participant, recipient, type } = node.attrs
+		const ackAttrs: BinaryNodeAttributes = { class: 'receipt', id, from: to }
+		if(type) {
+			ackAttrs.type = type
+		}
+
+		send(device.conn!, { tag: 'ack', attrs: ackAttrs })
+
+		const me = jidNormalizedUser(device.jid)
+		const attrs: BinaryNodeAttributes = { id, t: node.attrs.t || now() }
+		if(type) {
+			attrs.type = type
+		}
+
+		let target: string | undefined
+		if(isJidGroup(to)) {
+			attrs.from = to
+			attrs.participant = me
+			target = participant
+		} else {
+			attrs.from = me
+			if(recipient) {
+				attrs.recipient = recipient
+			}
+
+			target = to
+		}
+
+		const account = target && accounts.get(jidDecode(target)!.user)
+		for(const member of account ? account.devices.values() : []) {
+			if(member !== device) {
+				deliver(member, { tag: 'receipt', attrs: { ...attrs }, content: node.content })
+			}
+		}
+	}
+
+	const onNode = (conn: MockServerConnection, node: BinaryNode) => {
+		if(node.tag === 'iq') {
+			handleIq(conn, node)
+			return
+		}
+
+		const device = loggedIn.get(conn)
+		if(!device) {
+			return
+		}
+
+		switch (node.tag) {
+		case 'message':
+			handleMessage(device, node)
+			break
+		case 'receipt':
+			handleReceipt(device, node)
+			break
+		}
+	}
+
+	const login = (conn: MockServerConnection, payload: proto.ClientPayload) => {
+		const user = payload.username!.toString()
+		const device = findDevice(jidEncode(user, 's.whatsapp.net', payload.device || undefined))
+		if(!device || !Buffer.from(device.noiseKey).equals(Buffer.from(conn.noiseKey!))) {
+			logger.info({ user, device: payload.device }, 'unknown device tried to log in')
+			send(conn, { tag: 'failure', attrs: { reason: '401' } })
+			return
+		}
+
+		device.conn?.close()
+		device.conn = conn
+		loggedIn.set(conn, device)
+
+		send(conn, { tag: 'success', attrs: { t: now(), props: '1', location: 'fake' } })
+		const offline = device.offline.splice(0, device.offline.length)
+		for(const node of offline) {
+			send(conn, node)
+		}
+
+		send(conn, { tag: 'ib', attrs: { }, content: [{ tag: 'offline', attrs: { count: offline.length.toString() } }] })
+		logger.info({ jid: device.jid, offline: offline.length }, 'device logged in')
+
+		if(!device.hasAppStateKeys) {
+			shareAppStateKeys(accounts.get(user)!, device)
+				.catch(err => logger.error({ trace: err.stack, jid: device.jid }, 'failed to share app state keys'))
+		}
+	}
+
+	const register = (conn: MockServerConnection, payload: proto.ClientPayload) => {
+		const data = payload.devicePairingData!
+		const registration: PendingRegistration = {
+			conn,
+			refs: Array.from({ length: 6 }, () => randomBytes(16).toString('base64')),
+			noiseKey: conn.noiseKey!,
+			bundle: {
+				registrationId: Buffer.from(data.eRegid!).readUInt32BE(),
+				identityKey: data.eIdent!,
+				signedPreKey: {
+					keyId: Buffer.from(data.eSkeyId!).readUIntBE(0, 3),
+					publicKey: data.eSkeyVal!,
+					signature: data.eSkeySig!
+				},
+				preKeys: new Map()
+			}
+		}
+		registrations.push(registration)
+		conn.once('close', () => {
+			const idx = registrations.indexOf(registration)
+			if(idx >= 0 && !registration.device) {
+				registrations.splice(idx, 1)
+			}
+		})
+
+		send(conn, {
+			tag: 'iq',
+			attrs: { id: generateMessageID(), type: 'set', from: S_WHATSAPP_NET },
+			content: [{
+				tag: 'pair-device',
+				attrs: { },
+				content: registration.refs.map(ref => ({ tag: 'ref', attrs: { }, content: Buffer.from(ref) }))
+			}]
+		})
+	}
+
+	/** the client has signed its device identity, it must now reconnect to log in */
+	const completePairing = (registration: PendingRegistration) => {
+		registrations.splice(registrations.indexOf(registration), 1)
+		send(registration.conn, { tag: 'stream:error', attrs: { code: '515' } })
+		logger.info({ jid: registration.device!.jid }, 'device paired')
+	}
+
+	const handleConnection = (conn: MockServerConnection) => {
+		conn.on('handshake', (payload: proto.ClientPayload) => {
+			if(payload.devicePairingData) {
+				register(conn, payload)
+			} else {
+				login(conn, payload)
+			}
+		})
+		conn.on('node', (node: BinaryNode) => {
+			try {
+				onNode(conn, node)
+			} catch(error) {
+				logger.error({ trace: error.stack, node }, 'error in handling node')
+			}
+		})
+		conn.on('error', (error: Error) => {
+			logger.warn({ trace: error.stack }, 'connection errored')
+		})
+		conn.once('close', () => {
+			const device = loggedIn.get(conn)
+			if(device?.conn === conn) {
+				device.conn = undefined
+			}
+
+			loggedIn.delete(conn)
+		})
+	}
+
+	const wss = new WebSocketServer({ port, host })
+	wss.on('connection', ws => {
+		const conn = new MockServerConnection({
+			write: frame => ws.send(frame),
+			close: () => ws.close()
+		})
+		ws.on('message', (data: Buffer) => {
+			conn.receive(data)
+				.catch(err => conn.emit('error', err))
+		})
+		ws.on('close', () => conn.emit('close'))
+		handleConnection(conn)
+	})
+	await once(wss, 'listening')
+
+	const address = wss.address() as AddressInfo
+
+	return {
+		/** pass as `waWebSocketUrl` */
+		url: `ws://${host}:${address.port}`,
+		accounts,
+		groups,
+		/** serves connections made through an in-process mock transport as well */
+		attach: (transport: MockTransport) => transport.onConnection(handleConnection),
+		/**
+		 * simulates the primary phone of the given number scanning a QR,
+		 * the socket that generated the QR is then paired as a new companion device
+		 * @returns the JID assigned to the device
+		 */
+		pairWithQR: (qr: string, phoneNumber: string) => {
+			const [ref, noiseKeyB64, identityKeyB64, advSecretB64] = qr.split(',')
+			const registration = registrations.find(r => r.refs.includes(ref) && !r.device)
+			if(!registration || Buffer.from(registration.noiseKey).toString('base64') !== noiseKeyB64) {
+				throw new Boom('no pending registration for QR', { statusCode: 404 })
+			}
+
+			const account = assertAccount(phoneNumber)
+			const deviceId = account.nextDeviceId++
+			const device: FakeDevice = {
+				jid: jidEncode(phoneNumber, 's.whatsapp.net', deviceId),
+				noiseKey: registration.noiseKey,
+				bundle: registration.bundle,
+				offline: [],
+				hasAppStateKeys: false
+			}
+			account.devices.set(deviceId, device)
+			registration.device = device
+
+			// sign the companion, as the phone would
+			const details = proto.ADVDeviceIdentity.encode({
+				rawId: randomBytes(4).readUInt32BE(),
+				timestamp: unixTimestampSeconds(),
+				keyIndex: deviceId
+			}).finish()
+			const accountSignature = Curve.sign(
+				account.phone.creds.signedIdentityKey.private,
+				Buffer.concat([Buffer.from([6, 0]), details, Buffer.from(identityKeyB64, 'base64')])
+			)
+			const signedIdentity = proto.ADVSignedDeviceIdentity.encode({
+				details,
+				accountSignatureKey: account.phone.creds.signedIdentityKey.public,
+				accountSignature
+			}).finish()
+			const hmac = hmacSign(signedIdentity, Buffer.from(advSecretB64, 'base64'))
+
+			registration.pairIqId = generateMessageID()
+			send(registration.conn, {
+				tag: 'iq',
+				attrs: { id: registration.pairIqId, type: 'set', from: S_WHATSAPP_NET },
+				content: [{
+					tag: 'pair-success',
+					attrs: { },
+					content: [
+						{
+							tag: 'device-identity',
+							attrs: { },
+							content: proto.ADVSignedDeviceIdentityHMAC.encode({ details: signedIdentity, hmac }).finish()
+						},
+						{ tag: 'platform', attrs: { name: 'smba' } },
+						{ tag: 'device', attrs: { jid: device.jid } }
+					]
+				}]
+			})
+
+			return device.jid
+		},
+		close: async() => {
+			for(const ws of wss.clients) {
+				ws.terminate()
+			}
+
+			wss.close()
+			await once(wss, 'close')
+		}
+	}
+}
+
+export type FakeWAServer = Awaited<ReturnType<typeof makeFakeWAServer>>
@@ -0,0 +1,89 @@
+import { proto } from '../../WAProto'
+import { AlbumMediaContent, MessageGenerationOptions, WAMediaUploadFunction } from '../Types'
+import { delay, generateAlbumItemMessages, generateWAMessage } from '../Utils'
+import { logger } from './utils'
+
+describe('Album Tests', () => {
+
+	const JID = '1111@s.whatsapp.net'
+	const ITEMS: AlbumMediaContent[] = [
+		{ image: Buffer.from('image-1'), caption: 'first' },
+		{ video: Buffer.from('video-1') },
+		{ image: Buffer.from('image-2') },
+		{ image: Buffer.from('image-3'), caption: 'last' }
+	]
+
+	/** an upload that takes a while, recording how many ran at once */
+	const makeUpload = () => {
+		const stats = { inFlight: 0, maxInFlight: 0, uploads: 0 }
+		const upload: WAMediaUploadFunction = async(stream, { fileEncSha256B64 }) => {
+			stats.inFlight += 1
+			stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight)
+			for await (const _ of stream) { }
+
+			await delay(10)
+			stats.inFlight -= 1
+			stats.uploads += 1
+			return { mediaUrl: `https://mmg.whatsapp.net/${fileEncSha256B64}`, directPath: `/${fileEncSha256B64}` }
+		}
+
+		return { upload, stats }
+	}
+
+	const makeOptions = (upload: WAMediaUploadFunction): MessageGenerationOptions => ({
+		logger,
+		userJid: JID,
+		upload,
+		quoted: { key: { id: 'quoted', remoteJid: JID, fromMe: false }, message: { conversation: 'hi' } }
+	})
+
+	it('should count the images & videos of an album & quote the message', async() => {
+		const { upload } = makeUpload()
+		const album = await generateWAMessage(JID, { album: ITEMS }, makeOptions(upload))
+
+		expect(album.message?.albumMessage).toMatchObject({ expectedImageCount: 3, expectedVideoCount: 1 })
+		expect(album.message?.albumMessage?.contextInfo?.stanzaId).toBe('quoted')
+		expect(album.key.fromMe).toBe(true)
+	})
+
+	it('should associate every item with the album, in order', async() => {
+		const { upload, stats } = makeUpload()
+		const options = makeOptions(upload)
+		const album = await generateWAMessage(JID, { album: ITEMS }, options)
+
+		const itemMsgs = await generateAlbumItemMessages(
+			JID,
+			album.key,
+			ITEMS,
+			{ ...options, uploadConcurrency: 2, itemMessageIds: ['item-1', 'item-2'] }
+		)
+
+		expect(stats.uploads).toBe(ITEMS.length)
+		expect(stats.maxInFlight).toBe(2)
+		// IDs that aren't given are generated
+		expect(itemMsgs.map(m => m.key.id).slice(0, 2)).toEqual(['item-1', 'item-2'])
+		expect(new Set(itemMsgs.map(m => m.key.id)).size).toBe(ITEMS.length)
+		expect(itemMsgs.map(m => m.message?.imageMessage?.caption || m.message?.videoMessage?.caption || null))
+			.toEqual(['first', null, null, 'last'])
+		expect(itemMsgs.map(m => !!m.message?.videoMessage)).toEqual([false, true, false, false])
+		for(const { message } of itemMsgs) {
+			expect(message?.messageContextInfo?.messageAssociation).toEqual({
+				associationType: proto.MessageAssociation.AssociationType.MEDIA_ALBUM,
+				parentMessageKey: album.key
+			})
+			// only the album quotes a message
+			expect((message?.imageMessage || message?.videoMessage)?.contextInfo?.stanzaId).toBeFalsy()
+		}
+	})
+
+	it('should upload one item at a time when asked for no concurrency', async() => {
+		const { upload, stats } = makeUpload()
+		const options = makeOptions(upload)
+		const album = await generateWAMessage(JID, { album: ITEMS }, options)
+
+		const itemMsgs = await generateAlbumItemMessages(JID, album.key, ITEMS, { ...options, uploadConcurrency: 0 })
+
+		expect(itemMsgs).toHaveLength(ITEMS.length)
+		expect(stats.maxInFlight).toBe(1)
+	})
+})
@@ -0,0 +1,113 @@
+import { proto } from '../../WAProto'
+import { WAMessage } from '../Types'
+import { makeDeliveryTracker } from '../Utils'
+
+const { Status } = proto.WebMessageInfo
+
+describe('Delivery Tracker Tests', () => {
+
+	const GROUP_JID = '123-456@g.us'
+	const MEMBERS = ['1@s.whatsapp.net', '2@s.whatsapp.net']
+
+	const makeTracker = () => {
+		const getGroupRecipients = jest.fn(async() => MEMBERS)
+		const tracker = makeDeliveryTracker({ ackTimeoutMs: 1_000, getGroupRecipients })
+		return { tracker, getGroupRecipients }
+	}
+
+	const makeMessage = (id: string, jid: string): WAMessage => ({ key: { id, remoteJid: jid, fromMe: true } })
+
+	it('should resolve the server ack', async() => {
+		const { tracker } = makeTracker()
+		tracker.track('msg-1', MEMBERS[0])
+		const msg = tracker.attachHandle(makeMessage('msg-1', MEMBERS[0]))
+
+		const acked = msg.waitForServerAck()
+		tracker.onServerAck('msg-1')
+
+		await expect(acked).resolves.toBeUndefined()
+		// the handle must never end up in a serialized message
+		expect(Object.keys(msg)).toEqual(['key'])
+	})
+
+	it('should reject a message WA rejected', async() => {
+		const { tracker } = makeTracker()
+		tracker.track('msg-1', MEMBERS[0])
+		const msg = tracker.attachHandle(makeMessage('msg-1', MEMBERS[0]))
+
+		tracker.onServerAck('msg-1', '479')
+
+		await expect(msg.waitForServerAck()).rejects.toMatchObject({ output: { statusCode: 479 } })
+	})
+
+	it('should time out waiting for an ack', async() => {
+		const { tracker } = makeTracker()
+		tracker.track('msg-1', MEMBERS[0])
+		const msg = tracker.attachHandle(makeMessage('msg-1', MEMBERS[0]))
+
+		await expect(msg.waitForServerAck(50)).rejects.toThrow('Timed Out')
+	})
+
+	it('should resolve delivery & read of a 1:1 message', async() => {
+		const { tracker } = makeTracker()
+		tracker.track('msg-1', MEMBERS[0])
+		const msg = tracker.attachHandle(makeMessage('msg-1', MEMBERS[0]))
+
+		const delivered = msg.waitForDelivery()
+		const read = msg.waitForRead()
+		tracker.onReceipt('msg-1', '1:2@s.whatsapp.net', Status.DELIVERY_ACK)
+		await expect(delivered).resolves.toBeUndefined()
+
+		tracker.onReceipt('msg-1', MEMBERS[0], Status.READ)
+		await expect(read).resolves.toBeUndefined()
+		// a receipt implies WA accepted the message
+		await expect(msg.waitForServerAck()).resolves.toBeUndefined()
+	})
+
+	it('should wait for every member of a group', async() => {
+		const { tracker, getGroupRecipients } = makeTracker()
+		tracker.track('msg-1', GROUP_JID)
+		const msg = tracker.attachHandle(makeMessage('msg-1', GROUP_JID))
+
+		let isDelivered = false
+		const delivered = msg.waitForDelivery().then(() => {
+			isDelivered = true
+		})
+
+		tracker.onReceipt('msg-1', MEMBERS[0], Status.DELIVERY_ACK)
+		await new Promise(resolve => setImmediate(resolve))
+		expect(isDelivered).toBe(false)
+
+		tracker.onReceipt('msg-1', MEMBERS[1], Status.DELIVERY_ACK)
+		await delivered
+		expect(getGroupRecipients).toHaveBeenCalledWith(GROUP_JID)
+	})
+
+	it('should wait for a single member of a group when asked to', async() => {
+		const { tracker, getGroupRecipients } = makeTracker()
+		tracker.track('msg-1', GROUP_JID)
+		const msg = tracker.attachHandle(makeMessage('msg-1', GROUP_JID))
+
+		const read = msg.waitForRead(MEMBERS[1])
+		tracker.onReceipt('msg-1', MEMBERS[1], Status.READ)
+
+		await expect(read).resolves.toBeUndefined()
+		expect(getGroupRecipients).not.toHaveBeenCalled()
+	})
+
+	it('should forget a message that is no longer tracked', async() => {
+		const { tracker } = makeTracker()
+		tracker.track('msg-1', MEMBERS[0])
+		tracker.untrack('msg-1')
+		const msg = tracker.attachHandle(makeMessage('msg-1', MEMBERS[0]))
+
+		await expect(msg.waitForServerAck()).rejects.toMatchObject({ output: { statusCode: 404 } })
+	})
+
+	it('should reject waiting on a message that is not tracked', async() => {
+		const { tracker } = makeTracker()
+		const msg = tracker.attachHandle(makeMessage('msg-1', MEMBERS[0]))
+
+		await expect(msg.waitForDelivery()).rejects.toMatchObject({ output: { statusCode: 404 } })
+	})
+})
@@ -0,0 +1,70 @@
+import { randomBytes } from 'crypto'
+import { AuthenticationCreds } from '../Types'
+import { initAuthCreds, makeEncryptedAuthState } from '../Utils'
+import { logger, makeMemoryAuthState } from './utils'
+
+describe('Encrypted Auth State Tests', () => {
+
+	const KEY = randomBytes(32)
+
+	const makeCreds = (registered: boolean) => {
+		const creds = initAuthCreds()
+		if(registered) {
+			creds.me = { id: '1111:1@s.whatsapp.net' }
+		}
+
+		return creds
+	}
+
+	const wrap = (creds: AuthenticationCreds, allowPlaintext = false) => {
+		const state = makeMemoryAuthState(creds)
+		const saveCreds = jest.fn(async() => { })
+		return {
+			state,
+			saveCreds,
+			encrypted: makeEncryptedAuthState({ state, saveCreds }, { key: KEY, allowPlaintext, logger })
+		}
+	}
+
+	it('should migrate registered plaintext creds without losing them', async() => {
+		const creds = makeCreds(true)
+		const { me, noiseKey } = creds
+		const { state, saveCreds, encrypted } = wrap(creds, true)
+
+		const { state: { creds: migrated } } = await encrypted
+
+		expect(migrated.me).toEqual(me)
+		expect(migrated.noiseKey).toEqual(noiseKey)
+		// only the store's copy is encrypted
+		expect(saveCreds).toHaveBeenCalledTimes(1)
+		expect(state.creds).toHaveProperty('encryptedAuthValue')
+		expect(state.creds).not.toHaveProperty('me')
+
+		const { state: { creds: reopened } } = await wrap(state.creds).encrypted
+		expect(reopened.me).toEqual(me)
+		expect(reopened.noiseKey).toEqual(noiseKey)
+	})
+
+	it('should keep unregistered plaintext creds once they are saved', async() => {
+		const creds = makeCreds(false)
+		const { noiseKey } = creds
+		const { state, encrypted } = wrap(creds, true)
+
+		const { state: { creds: migrated }, saveCreds } = await encrypted
+		await saveCreds()
+
+		expect(migrated.noiseKey).toEqual(noiseKey)
+		expect(state.creds).toHaveProperty('encryptedAuthValue')
+	})
+
+	it('should encrypt keys & read them back', async() => {
+		const { state, encrypted } = wrap(makeCreds(false))
+		const { state: { keys } } = await encrypted
+
+		await keys.set({ 'sender-key-memory': { '123@g.us': { '1@s.whatsapp.net': true } } })
+
+		const stored = await state.keys.get('sender-key-memory', ['123@g.us'])
+		expect(stored['123@g.us']).toHaveProperty('encryptedAuthValue')
+		expect(await keys.get('sender-key-memory', ['123@g.us'])).toEqual({ '123@g.us': { '1@s.whatsapp.net': true } })
+	})
+})
@@ -0,0 +1,120 @@
+import NodeCache from '@cacheable/node-cache'
+import { proto } from '../../WAProto'
+import { SignalKeyStoreWithTransaction, WAMessageUpdate } from '../Types'
+import { decryptEventResponse, initAuthCreds, makeEventBuffer, toNumber } from '../Utils'
+import processMessage from '../Utils/process-message'
+import { encryptWithMessageSecret, logger } from './utils'
+
+const { EventResponseType } = proto.Message.EventResponseMessage
+
+describe('Event Response Tests', () => {
+
+	const ME = '1111:1@s.whatsapp.net'
+	const GUEST = '2222@s.whatsapp.net'
+	const EVENT_ID = 'event-1'
+
+	const eventKey: proto.IMessageKey = { id: EVENT_ID, remoteJid: GUEST, fromMe: true }
+	const eventSecret = Buffer.alloc(32, 7)
+	const eventMessage: proto.IMessage = {
+		eventMessage: { name: 'dinner', startTime: 1_000 },
+		messageContextInfo: { messageSecret: eventSecret }
+	}
+
+	const encryptResponse = (response: proto.Message.EventResponseMessage.EventResponseType, secret = eventSecret) => (
+		encryptWithMessageSecret(
+			proto.Message.EventResponseMessage.encode({ response, timestampMs: 1_000 }).finish(),
+			{
+				msgId: EVENT_ID,
+				creatorJid: '1111@s.whatsapp.net',
+				senderJid: GUEST,
+				secret,
+				modificationType: 'Event Response'
+			}
+		)
+	)
+
+	const makeResponseMessage = (
+		id: string,
+		response: proto.Message.EventResponseMessage.EventResponseType,
+		secret?: Buffer
+	): proto.IWebMessageInfo => ({
+		key: { id, remoteJid: GUEST, fromMe: false },
+		messageTimestamp: 1,
+		message: {
+			encEventResponseMessage: {
+				eventCreationMessageKey: eventKey,
+				...encryptResponse(response, secret)
+			}
+		}
+	})
+
+	const makeContext = (getMessage?: () => Promise<proto.IMessage | undefined>) => {
+		const creds = initAuthCreds()
+		creds.me = { id: ME }
+
+		const ev = makeEventBuffer(logger)
+		const updates: WAMessageUpdate[] = []
+		ev.on('messages.update', update => updates.push(...update))
+
+		const context = {
+			shouldProcessHistoryMsg: true,
+			pollCache: new NodeCache({ useClones: false }),
+			getMessage,
+			creds,
+			keyStore: { } as SignalKeyStoreWithTransaction,
+			ev,
+			logger,
+			options: { }
+		}
+		return { context, updates }
+	}
+
+	it('should decrypt a response', () => {
+		const response = decryptEventResponse(encryptResponse(EventResponseType.MAYBE), {
+			eventCreatorJid: '1111@s.whatsapp.net',
+			eventMsgId: EVENT_ID,
+			eventEncKey: eventSecret,
+			responderJid: GUEST
+		})
+
+		expect(response.response).toBe(EventResponseType.MAYBE)
+		expect(toNumber(response.timestampMs)).toBe(1_000)
+	})
+
+	it('should tally responses to an event it has seen', async() => {
+		const { context, updates } = makeContext()
+
+		await processMessage({ key: eventKey, message: eventMessage, messageTimestamp: 1 }, context)
+		await processMessage(makeResponseMessage('response-1', EventResponseType.GOING), context)
+		// a later response replaces the earlier one
+		await processMessage(makeResponseMessage('response-2', EventResponseType.NOT_GOING), context)
+
+		expect(updates.map(u => u.update.eventResponses![0].eventResponseMessageKey?.id)).toEqual(['response-1', 'response-2'])
+		expect(updates.map(u => u.eventResponseTally)).toEqual([
+			{ going: [GUEST], notGoing: [], maybe: [], isPartial: false },
+			{ going: [], notGoing: [GUEST], maybe: [], isPartial: false }
+		])
+	})
+
+	it('should mark the tally of an event fetched with getMessage as partial', async() => {
+		const getMessage = jest.fn(async() => eventMessage)
+		const { context, updates } = makeContext(getMessage)
+
+		await processMessage(makeResponseMessage('response-1', EventResponseType.MAYBE), context)
+		await processMessage(makeResponseMessage('response-2', EventResponseType.GOING), context)
+
+		// fetched once, then cached
+		expect(getMessage).toHaveBeenCalledTimes(1)
+		expect(updates.map(u => u.eventResponseTally?.isPartial)).toEqual([true, true])
+		expect(updates[1].eventResponseTally).toEqual({ going: [GUEST], notGoing: [], maybe: [], isPartial: true })
+	})
+
+	it('should not tally a response it cannot decrypt', async() => {
+		const { context, updates } = makeContext()
+
+		await processMessage({ key: eventKey, message: eventMessage, messageTimestamp: 1 }, context)
+		await processMessage(makeResponseMessage('response-1', EventResponseType.GOING, Buffer.alloc(32, 1)), context)
+
+		expect(updates).toHaveLength(0)
+	})
+})
@@ -0,0 +1,189 @@
+import { Boom } from '@hapi/boom'
+import makeWASocket from '../Socket'
+import { FakeWAServer, makeFakeWAServer } from '../Testing'
+import { DisconnectReason, WAMessage } from '../Types'
+import { initAuthCreds } from '../Utils'
+import { jidEncode } from '../WABinary'
+import { logger, makeMemoryAuthState } from './utils'
+
+type Socket = ReturnType<typeof makeWASocket>
+
+// the fake server has no media host, uploads only go as far as reading the media
+jest.mock('../Utils/messages-media', () => ({
+	...jest.requireActual('../Utils/messages-media'),
+	getWAUploadToServer: () => async(stream: AsyncIterable<Buffer>, { fileEncSha256B64 }: { fileEncSha256B64: string }) => {
+		for await (const _ of stream) { }
+
+		return { mediaUrl: `https://mmg.whatsapp.net/${fileEncSha256B64}`, directPath: `/${fileEncSha256B64}` }
+	}
+}))
+
+describe('Fake Server Tests', () => {
+
+	let server: FakeWAServer
+	const sockets: Socket[] = []
+
+	/** pairs a new socket with the phone number, resolves once the connection opens */
+	const pairSocket = (phone: string) => {
+		const auth = makeMemoryAuthState(initAuthCreds())
+		return new Promise<Socket>((resolve, reject) => {
+			const start = () => {
+				const sock = makeWASocket({
+					auth,
+					waWebSocketUrl: server.url,
+					logger,
+					printQRInTerminal: false,
+					markOnlineOnConnect: false
+				})
+				sockets.push(sock)
+
+				sock.ev.on('creds.update', update => Object.assign(auth.creds, update))
+				sock.ev.on('connection.update', ({ qr, connection, lastDisconnect }) => {
+					if(qr) {
+						server.pairWithQR(qr, phone)
+					}
+
+					if(connection === 'open') {
+						resolve(sock)
+					} else if(connection === 'close') {
+						// the server asks for a restart once pairing completes
+						const statusCode = (lastDisconnect?.error as Boom)?.output?.statusCode
+						if(statusCode === DisconnectReason.restartRequired) {
+							start()
+						} else {
+							reject(lastDisconnect?.error)
+						}
+					}
+				})
+			}
+
+			start()
+		})
+	}
+
+	const waitForMessage = (sock: Socket, predicate: (msg: WAMessage) => boolean) => (
+		new Promise<WAMessage>(resolve => {
+			sock.ev.on('messages.upsert', ({ messages }) => {
+				const msg = messages.find(predicate)
+				if(msg) {
+					resolve(msg)
+				}
+			})
+		})
+	)
+
+	beforeEach(async() => {
+		server = await makeFakeWAServer({ logger })
+	})
+
+	afterEach(async() => {
+		for(const sock of sockets.splice(0)) {
+			sock.end(undefined)
+		}
+
+		await server.close()
+	})
+
+	it('should pair a socket with a phone number', async() => {
+		const sock = await pairSocket('1111')
+
+		expect(sock.user?.id).toMatch(/^1111:\d+@s\.whatsapp\.net$/)
+		expect(sock.authState.creds.me?.id).toBe(sock.user?.id)
+		expect(sock.authState.creds.account?.accountSignature).toBeTruthy()
+	})
+
+	it('should exchange a 1:1 message between two sockets', async() => {
+		const a = await pairSocket('1111')
+		const b = await pairSocket('2222')
+
+		const received = waitForMessage(b, msg => !msg.key.fromMe)
+		const sent = await a.sendMessage(jidEncode('2222', 's.whatsapp.net'), { text: 'hello' })
+
+		const msg = await received
+		expect(msg.key.id).toBe(sent!.key.id)
+		expect(msg.key.remoteJid).toBe(jidEncode('1111', 's.whatsapp.net'))
+		expect(msg.message?.extendedTextMessage?.text || msg.message?.conversation).toBe('hello')
+	})
+
+	it('should deliver a group message to the other participants', async() => {
+		const a = await pairSocket('1111')
+		const b = await pairSocket('2222')
+
+		const group = await a.groupCreate('test group', [jidEncode('2222', 's.whatsapp.net')])
+		expect(group.participants).toHaveLength(2)
+
+		const received = waitForMessage(b, msg => msg.key.remoteJid === group.id && !!msg.message?.extendedTextMessage)
+		const sent = await a.sendMessage(group.id, { text: 'hello group' })
+
+		const msg = await received
+		expect(msg.key.id).toBe(sent!.key.id)
+		expect(msg.key.participant).toBe(jidEncode('1111', 's.whatsapp.net'))
+		expect(msg.message?.extendedTextMessage?.text).toBe('hello group')
+	})
+
+	it('should send an album followed by its items', async() => {
+		const a = await pairSocket('1111')
+		const b = await pairSocket('2222')
+
+		const received: WAMessage[] = []
+		const allReceived = new Promise<void>(resolve => {
+			b.ev.on('messages.upsert', ({ messages }) => {
+				received.push(...messages.filter(msg => !msg.key.fromMe && !msg.message?.protocolMessage))
+				if(received.length >= 3) {
+					resolve()
+				}
+			})
+		})
+
+		const { album, items } = await a.sendAlbum(
+			jidEncode('2222', 's.whatsapp.net'),
+			[
+				{ image: Buffer.from('image'), caption: 'first' },
+				{ video: Buffer.from('video'), caption: 'second' }
+			],
+			{ trackItems: true }
+		)
+		await allReceived
+
+		expect(received.map(msg => msg.key.id)).toEqual([album.key.id, ...items.map(item => item.key.id)])
+		expect(received[0].message?.albumMessage).toMatchObject({ expectedImageCount: 1, expectedVideoCount: 1 })
+		expect(received[1].message?.imageMessage?.caption).toBe('first')
+		expect(received[2].message?.videoMessage?.caption).toBe('second')
+		for(const msg of received.slice(1)) {
+			expect(msg.message?.messageContextInfo?.messageAssociation?.parentMessageKey?.id).toBe(album.key.id)
+		}
+
+		await album.waitForServerAck()
+		await Promise.all(items.map(item => item.waitForServerAck()))
+	})
+
+	it('should send an album with sendMessage', async() => {
+		const a = await pairSocket('1111')
+		const b = await pairSocket('2222')
+
+		const received: WAMessage[] = []
+		const allReceived = new Promise<void>(resolve => {
+			b.ev.on('messages.upsert', ({ messages }) => {
+				received.push(...messages.filter(msg => !msg.key.fromMe && !msg.message?.protocolMessage))
+				if(received.length >= 3) {
+					resolve()
+				}
+			})
+		})
+
+		const sent = await a.sendMessage(
+			jidEncode('2222', 's.whatsapp.net'),
+			{ album: [{ image: Buffer.from('image-1') }, { image: Buffer.from('image-2') }] }
+		)
+		await allReceived
+
+		expect(received[0].key.id).toBe(sent!.key.id)
+		expect(received[0].message?.albumMessage).toMatchObject({ expectedImageCount: 2 })
+		for(const msg of received.slice(1)) {
+			expect(msg.message?.imageMessage).toBeTruthy()
+			expect(msg.message?.messageContextInfo?.messageAssociation?.parentMessageKey?.id).toBe(sent!.key.id)
+		}
+
+		await sent!.waitForServerAck()
+	})
+})
@@ -0,0 +1,164 @@
+import { Boom } from '@hapi/boom'
+import { makeMessageQueue, MessageQueueSocket, MessageQueueSupervisor } from '../Socket/message-queue'
+import { DisconnectReason, MessageQueueConfig, QueuedMessage } from '../Types'
+import { delay, makeEventBuffer, makeInMemoryMessageQueueStore } from '../Utils'
+import { logger } from './utils'
+
+type SentMessage = { jid: string, text: string, id: string }
+
+describe('Message Queue Tests', () => {
+
+	/** a socket that records what it sends, fails sends while `sendError` is set */
+	const makeFakeSocket = () => {
+		const sent: SentMessage[] = []
+		const fake = {
+			sendError: undefined as Error | undefined,
+			sent
+		}
+		const sock = {
+			ev: makeEventBuffer(logger),
+			sendMessage: async(jid: string, content: { text: string }, { messageId }: { messageId: string }) => {
+				if(fake.sendError) {
+					throw fake.sendError
+				}
+
+				sent.push({ jid, text: content.text, id: messageId })
+				return undefined
+			},
+			relayMessage: async() => ''
+		} as unknown as MessageQueueSocket
+
+		return { sock, fake, open: () => sock.ev.emit('connection.update', { connection: 'open' }) }
+	}
+
+	const makeQueue = (sock: MessageQueueSocket | MessageQueueSupervisor, config: Partial<MessageQueueConfig> = { }) => (
+		makeMessageQueue(sock, {
+			logger,
+			globalRateLimit: { capacity: 100, refillPerSecond: 100 },
+			chatRateLimit: { capacity: 100, refillPerSecond: 100 },
+			retryDelayMs: 10,
+			...config
+		})
+	)
+
+	it('should hold messages until the connection opens', async() => {
+		const { sock, fake, open } = makeFakeSocket()
+		const queue = makeQueue(sock)
+
+		await queue.enqueue('1@s.whatsapp.net', { text: 'hello' })
+		// the websocket is open during the handshake, that's not enough
+		sock.ev.emit('connection.update', { connection: 'connecting' })
+		await delay(20)
+		expect(fake.sent).toHaveLength(0)
+		expect(queue.pending()).toHaveLength(1)
+
+		open()
+		await delay(20)
+
+		expect(fake.sent.map(m => m.text)).toEqual(['hello'])
+		expect(queue.pending()).toHaveLength(0)
+		queue.close()
+	})
+
+	it('should send higher priority messages first', async() => {
+		const { sock, fake } = makeFakeSocket()
+		const queue = makeQueue(sock)
+
+		await queue.enqueue('1@s.whatsapp.net', { text: 'low' }, { priority: 'low' })
+		await queue.enqueue('2@s.whatsapp.net', { text: 'normal' })
+		await queue.enqueue('3@s.whatsapp.net', { text: 'high' }, { priority: 'high' })
+
+		sock.ev.emit('connection.update', { connection: 'open' })
+		await delay(50)
+
+		expect(fake.sent.map(m => m.text)).toEqual(['high', 'normal', 'low'])
+		queue.close()
+	})
+
+	it('should re-send a message interrupted by a disconnect with the same ID', async() => {
+		const { sock, fake, open } = makeFakeSocket()
+		fake.sendError = new Boom('Connection Closed', { statusCode: DisconnectReason.connectionClosed })
+		const queue = makeQueue(sock, { maxAttempts: 1 })
+		open()
+
+		const item = await queue.enqueue('1@s.whatsapp.net', { text: 'hello' })
+		await delay(20)
+		// connection errors don't count as attempts
+		expect(queue.pending()).toEqual([item])
+		expect(item.attempts).toBe(0)
+
+		fake.sendError = undefined
+		await delay(50)
+
+		expect(fake.sent).toEqual([{ jid: '1@s.whatsapp.net', text: 'hello', id: item.id }])
+		queue.close()
+	})
+
+	it('should re-send through the socket a supervisor reconnected with', async() => {
+		const first = makeFakeSocket()
+		const second = makeFakeSocket()
+		first.fake.sendError = new Boom('Connection Closed', { statusCode: DisconnectReason.connectionClosed })
+		let socket = first.sock
+		const supervisor: MessageQueueSupervisor = {
+			ev: makeEventBuffer(logger),
+			get socket() {
+				return socket
+			}
+		}
+		const queue = makeQueue(supervisor)
+		supervisor.ev.emit('connection.update', { connection: 'open' })
+
+		const item = await queue.enqueue('1@s.whatsapp.net', { text: 'hello' })
+		await delay(20)
+		supervisor.ev.emit('connection.update', { connection: 'close' })
+
+		socket = second.sock
+		supervisor.ev.emit('connection.update', { connection: 'open' })
+		await delay(50)
+
+		expect(first.fake.sent).toHaveLength(0)
+		expect(second.fake.sent).toEqual([{ jid: '1@s.whatsapp.net', text: 'hello', id: item.id }])
+		queue.close()
+	})
+
+	it('should drop a message once it runs out of attempts', async() => {
+		const { sock, fake, open } = makeFakeSocket()
+		fake.sendError = new Boom('Bad Request', { statusCode: 400 })
+		const onFailed = jest.fn()
+		const queue = makeQueue(sock, { maxAttempts: 2, onFailed })
+		open()
+
+		const item = await queue.enqueue('1@s.whatsapp.net', { text: 'hello' })
+		await delay(100)
+
+		expect(onFailed).toHaveBeenCalledTimes(1)
+		expect(onFailed.mock.calls[0][0].id).toBe(item.id)
+		expect(queue.pending()).toHaveLength(0)
+		queue.close()
+	})
+
+	it('should send messages left over from a previous run', async() => {
+		const store = makeInMemoryMessageQueueStore()
+		const leftOver: QueuedMessage = {
+			id: 'left-over',
+			jid: '1@s.whatsapp.net',
+			priority: 'normal',
+			enqueuedAt: Date.now(),
+			attempts: 0,
+			type: 'send',
+			content: { text: 'from before' },
+			options: { }
+		}
+		await store.save(leftOver)
+
+		const { sock, fake, open } = makeFakeSocket()
+		const queue = makeQueue(sock, { store })
+		open()
+		await queue.loaded
+		await delay(20)
+
+		expect(fake.sent).toEqual([{ jid: '1@s.whatsapp.net', text: 'from before', id: 'left-over' }])
+		expect(await store.load()).toHaveLength(0)
+		queue.close()
+	})
+})
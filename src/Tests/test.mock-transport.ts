@@ -0,0 +1,81 @@
+import makeWASocket from '../Socket'
+import { makeMockTransport } from '../Socket/Client'
+import { initAuthCreds } from '../Utils'
+import { logger, makeMemoryAuthState } from './utils'
+
+describe('Mock Transport Tests', () => {
+
+	const connectSocket = async() => {
+		const transport = makeMockTransport()
+		const sock = makeWASocket({
+			auth: makeMemoryAuthState(initAuthCreds()),
+			socketClient: transport.SocketClient,
+			logger,
+			printQRInTerminal: false
+		})
+		const conn = await transport.waitForConnection()
+		return { transport, sock, conn }
+	}
+
+	it('should complete the noise handshake with an unregistered socket', async() => {
+		const { sock, conn } = await connectSocket()
+
+		const payload = await conn.waitForHandshake()
+		// registration carries the pairing data, a login would carry the username
+		expect(payload.devicePairingData).toBeTruthy()
+		expect(payload.username).toBeFalsy()
+		expect(conn.isHandshakeComplete).toBe(true)
+
+		sock.end(undefined)
+	})
+
+	it('should exchange nodes with the socket', async() => {
+		const { sock, conn } = await connectSocket()
+		await conn.waitForHandshake()
+
+		const qr = new Promise<string>(resolve => {
+			sock.ev.on('connection.update', update => update.qr && resolve(update.qr))
+		})
+		const ack = conn.waitForNode(node => node.tag === 'iq' && node.attrs.id === 'pair-1')
+		await conn.sendNode({
+			tag: 'iq',
+			attrs: { id: 'pair-1', type: 'set', from: 's.whatsapp.net' },
+			content: [
+				{
+					tag: 'pair-device',
+					attrs: { },
+					content: [{ tag: 'ref', attrs: { }, content: Buffer.from('ref-1') }]
+				}
+			]
+		})
+
+		expect((await ack).attrs.type).toBe('result')
+		expect((await qr).startsWith('ref-1,')).toBe(true)
+		expect(conn.received.length).toBeGreaterThan(0)
+
+		sock.end(undefined)
+	})
+
+	it('should remove the listener of a wait that timed out', async() => {
+		const { sock, conn } = await connectSocket()
+		await conn.waitForHandshake()
+
+		const listeners = conn.listenerCount('node')
+		await expect(conn.waitForNode(() => false, 50)).rejects.toThrow('Timed Out')
+		expect(conn.listenerCount('node')).toBe(listeners)
+
+		sock.end(undefined)
+	})
+
+	it('should close the socket when the server ends the connection', async() => {
+		const { sock, conn } = await connectSocket()
+		await conn.waitForHandshake()
+
+		const closed = new Promise(resolve => {
+			sock.ev.on('connection.update', update => update.connection === 'close' && resolve(update))
+		})
+		conn.close()
+
+		await closed
+	})
+})
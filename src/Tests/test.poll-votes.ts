@@ -0,0 +1,129 @@
+import NodeCache from '@cacheable/node-cache'
+import { proto } from '../../WAProto'
+import { PollTally, SignalKeyStoreWithTransaction, WAMessageUpdate } from '../Types'
+import { decryptPollVote, initAuthCreds, makeEventBuffer, sha256 } from '../Utils'
+import processMessage from '../Utils/process-message'
+import { encryptWithMessageSecret, logger } from './utils'
+
+describe('Poll Vote Tests', () => {
+
+	const ME = '1111:1@s.whatsapp.net'
+	const VOTER = '2222@s.whatsapp.net'
+	const POLL_ID = 'poll-1'
+	const OPTIONS = ['red', 'green', 'blue']
+
+	const pollKey: proto.IMessageKey = { id: POLL_ID, remoteJid: VOTER, fromMe: true }
+	const pollSecret = Buffer.alloc(32, 7)
+	const pollMessage: proto.IMessage = {
+		pollCreationMessageV3: {
+			name: 'colour?',
+			options: OPTIONS.map(optionName => ({ optionName })),
+			selectableOptionsCount: 1
+		},
+		messageContextInfo: { messageSecret: pollSecret }
+	}
+
+	const encryptVote = (options: string[], secret = pollSecret) => encryptWithMessageSecret(
+		proto.Message.PollVoteMessage.encode({
+			selectedOptions: options.map(option => sha256(Buffer.from(option)))
+		}).finish(),
+		{
+			msgId: POLL_ID,
+			creatorJid: '1111@s.whatsapp.net',
+			senderJid: VOTER,
+			secret,
+			modificationType: 'Poll Vote'
+		}
+	)
+
+	const makeVoteMessage = (id: string, options: string[], secret?: Buffer): proto.IWebMessageInfo => ({
+		key: { id, remoteJid: VOTER, fromMe: false },
+		messageTimestamp: 1,
+		message: {
+			pollUpdateMessage: {
+				pollCreationMessageKey: pollKey,
+				vote: encryptVote(options, secret),
+				senderTimestampMs: 1_000
+			}
+		}
+	})
+
+	const makeContext = (getMessage?: () => Promise<proto.IMessage | undefined>) => {
+		const creds = initAuthCreds()
+		creds.me = { id: ME }
+
+		const ev = makeEventBuffer(logger)
+		const tallies: PollTally[] = []
+		const updates: WAMessageUpdate[] = []
+		ev.on('poll-tally.update', tally => tallies.push(tally))
+		ev.on('messages.update', update => updates.push(...update))
+
+		const context = {
+			shouldProcessHistoryMsg: true,
+			pollCache: new NodeCache({ useClones: false }),
+			getMessage,
+			creds,
+			keyStore: { } as SignalKeyStoreWithTransaction,
+			ev,
+			logger,
+			options: { }
+		}
+		return { context, tallies, updates }
+	}
+
+	it('should decrypt a vote', () => {
+		const vote = decryptPollVote(encryptVote(['green']), {
+			pollCreatorJid: '1111@s.whatsapp.net',
+			pollMsgId: POLL_ID,
+			pollEncKey: pollSecret,
+			voterJid: VOTER
+		})
+
+		expect(vote.selectedOptions.map(Buffer.from)).toEqual([sha256(Buffer.from('green'))])
+	})
+
+	it('should tally votes on a poll it has seen', async() => {
+		const { context, tallies, updates } = makeContext()
+
+		await processMessage({ key: pollKey, message: pollMessage, messageTimestamp: 1 }, context)
+		await processMessage(makeVoteMessage('vote-1', ['red']), context)
+		// a later vote replaces the earlier one
+		await processMessage(makeVoteMessage('vote-2', ['blue']), context)
+
+		expect(updates.map(u => u.update.pollUpdates![0].pollUpdateMessageKey?.id)).toEqual(['vote-1', 'vote-2'])
+		expect(tallies).toHaveLength(2)
+		expect(tallies[1]).toEqual({
+			key: pollKey,
+			name: 'colour?',
+			votes: [
+				{ name: 'red', voters: [] },
+				{ name: 'green', voters: [] },
+				{ name: 'blue', voters: [VOTER] }
+			],
+			isPartial: false
+		})
+	})
+
+	it('should mark the tally of a poll fetched with getMessage as partial', async() => {
+		const getMessage = jest.fn(async() => pollMessage)
+		const { context, tallies } = makeContext(getMessage)
+
+		await processMessage(makeVoteMessage('vote-1', ['green']), context)
+		await processMessage(makeVoteMessage('vote-2', ['green']), context)
+
+		// fetched once, then cached
+		expect(getMessage).toHaveBeenCalledTimes(1)
+		expect(tallies.map(t => t.isPartial)).toEqual([true, true])
+		expect(tallies[1].votes[1]).toEqual({ name: 'green', voters: [VOTER] })
+	})
+
+	it('should not tally a vote it cannot decrypt', async() => {
+		const { context, tallies, updates } = makeContext()
+
+		await processMessage({ key: pollKey, message: pollMessage, messageTimestamp: 1 }, context)
+		await processMessage(makeVoteMessage('vote-1', ['red'], Buffer.alloc(32, 1)), context)
+
+		expect(tallies).toHaveLength(0)
+		expect(updates).toHaveLength(0)
+	})
+})
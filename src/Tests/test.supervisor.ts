@@ -0,0 +1,106 @@
+import { Boom } from '@hapi/boom'
+import { makeMockTransport, MockServerConnection, MockTransport } from '../Socket/Client'
+import { makeSupervisedSocket } from '../Socket/supervisor'
+import { DisconnectReason, ReconnectConfig } from '../Types'
+import { initAuthCreds } from '../Utils'
+import { logger, makeMemoryAuthState } from './utils'
+
+describe('Supervisor Tests', () => {
+
+	let transport: MockTransport
+	let supervisor: ReturnType<typeof makeSupervisedSocket>
+
+	const startSupervisor = (reconnect: Partial<ReconnectConfig> = { }) => {
+		transport = makeMockTransport()
+		supervisor = makeSupervisedSocket({
+			auth: makeMemoryAuthState(initAuthCreds()),
+			socketClient: transport.SocketClient,
+			logger,
+			printQRInTerminal: false,
+			reconnect: { initialDelayMs: 10, jitter: 0, ...reconnect }
+		})
+	}
+
+	const nextConnection = async() => {
+		const conn = await transport.waitForConnection()
+		await conn.waitForHandshake()
+		return conn
+	}
+
+	/** resolves with the status code the next time the connection closes */
+	const waitForClose = () => (
+		new Promise<number | undefined>(resolve => {
+			supervisor.ev.on('connection.update', ({ connection, lastDisconnect }) => {
+				if(connection === 'close') {
+					resolve((lastDisconnect?.error as Boom)?.output?.statusCode)
+				}
+			})
+		})
+	)
+
+	const sendStreamError = (conn: MockServerConnection, code: DisconnectReason) => (
+		conn.sendNode({ tag: 'stream:error', attrs: { code: code.toString() } })
+	)
+
+	afterEach(() => {
+		supervisor.end(undefined)
+	})
+
+	it('should reconnect at once when a restart is required', async() => {
+		startSupervisor()
+		const conn = await nextConnection()
+		const firstSocket = supervisor.socket
+
+		const closed = waitForClose()
+		await sendStreamError(conn, DisconnectReason.restartRequired)
+		expect(await closed).toBe(DisconnectReason.restartRequired)
+
+		await nextConnection()
+		expect(supervisor.socket).not.toBe(firstSocket)
+		expect(supervisor.isActive()).toBe(true)
+		expect(transport.connections).toHaveLength(2)
+	})
+
+	it('should reconnect a timed out connection until the attempts run out', async() => {
+		startSupervisor({ maxAttempts: 1 })
+
+		const closed = waitForClose()
+		await sendStreamError(await nextConnection(), DisconnectReason.timedOut)
+		expect(await closed).toBe(DisconnectReason.timedOut)
+
+		// the one attempt allowed
+		const conn = await nextConnection()
+		expect(supervisor.isActive()).toBe(true)
+
+		const closedAgain = waitForClose()
+		await sendStreamError(conn, DisconnectReason.timedOut)
+		await closedAgain
+
+		expect(supervisor.isActive()).toBe(false)
+		await expect(transport.waitForConnection(100)).rejects.toThrow('Timed Out')
+	})
+
+	it('should not reconnect a replaced session', async() => {
+		startSupervisor()
+
+		const closed = waitForClose()
+		await sendStreamError(await nextConnection(), DisconnectReason.connectionReplaced)
+		expect(await closed).toBe(DisconnectReason.connectionReplaced)
+
+		expect(supervisor.isActive()).toBe(false)
+		await expect(transport.waitForConnection(100)).rejects.toThrow('Timed Out')
+	})
+
+	it('should reconnect once the server closes the connection', async() => {
+		startSupervisor()
+
+		const conn = await nextConnection()
+		const closed = waitForClose()
+		conn.close()
+		expect(await closed).toBe(DisconnectReason.connectionClosed)
+
+		await nextConnection()
+		expect(supervisor.isActive()).toBe(true)
+		expect(transport.connections).toHaveLength(2)
+	})
+})
@@ -0,0 +1,86 @@
+import { randomBytes } from 'crypto'
+import P from 'pino'
+import { AuthenticationCreds, AuthenticationState, SignalDataTypeMap } from '../Types'
+import { aesEncryptGCM, hmacSign } from '../Utils'
+import { jidEncode } from '../WABinary'
+
+/** set LOG_LEVEL to see what the sockets are doing */
+export const logger = P({ level: process.env.LOG_LEVEL || 'silent' })
+
+export function randomJid() {
+	return jidEncode(Math.floor(Math.random() * 1000000), Math.random() < 0.5 ? 's.whatsapp.net' : 'g.us')
+}
+
+/** an auth state that lives in memory, its key store supports `list` */
+export const makeMemoryAuthState = (creds: AuthenticationCreds): AuthenticationState => {
+	const data = new Map<string, Map<string, unknown>>()
+	const getDict = (type: string) => {
+		let dict = data.get(type)
+		if(!dict) {
+			dict = new Map()
+			data.set(type, dict)
+		}
+
+		return dict
+	}
+
+	return {
+		creds,
+		keys: {
+			get: async(type, ids) => {
+				const dict = getDict(type)
+				const result: { [id: string]: SignalDataTypeMap[typeof type] } = { }
+				for(const id of ids) {
+					const value = dict.get(id)
+					if(value) {
+						result[id] = value as SignalDataTypeMap[typeof type]
+					}
+				}
+
+				return result
+			},
+			set: async(update) => {
+				for(const type in update) {
+					const dict = getDict(type)
+					for(const id in update[type]) {
+						const value = update[type][id]
+						if(value) {
+							dict.set(id, value)
+						} else {
+							dict.delete(id)
+						}
+					}
+				}
+			},
+			list: async(type) => Array.from(getDict(type).keys())
+		}
+	}
+}
+
+type MessageSecretContext = {
+	msgId: string
+	creatorJid: string
+	senderJid: string
+	secret: Uint8Array
+	/** 'Poll Vote' or 'Event Response' */
+	modificationType: string
+}
+
+/** encrypts an add-on (vote, response) to a message, the way the sender's client does */
+export const encryptWithMessageSecret = (
+	plaintext: Uint8Array,
+	{ msgId, creatorJid, senderJid, secret, modificationType }: MessageSecretContext
+) => {
+	const sign = Buffer.concat([
+		Buffer.from(msgId),
+		Buffer.from(creatorJid),
+		Buffer.from(senderJid),
+		Buffer.from(modificationType),
+		new Uint8Array([1])
+	])
+	const key0 = hmacSign(secret, new Uint8Array(32))
+	const encKey = hmacSign(sign, key0)
+	const encIv = randomBytes(12)
+	const encPayload = aesEncryptGCM(plaintext, encKey, encIv, Buffer.from(`${msgId}\u0000${senderJid}`))
+	return { encPayload, encIv }
+}
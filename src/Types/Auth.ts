@@ -1,5 +1,6 @@
 import type { proto } from '../../WAProto'
 import type { Contact } from './Contact'
+import type { BroadcastList } from './BroadcastList'
 import type { MinimalMessage } from './Message'
 
 export type KeyPair = { public: Uint8Array, private: Uint8Array }
@@ -59,6 +60,8 @@ export type AuthenticationCreds = SignalCreds & {
     /** number of times history & app state has been synced */
     accountSyncCounter: number
     accountSettings: AccountSettings
+    /** broadcast lists created from this device, by JID */
+    broadcastLists?: { [jid: string]: BroadcastList }
     registered: boolean
     pairingCode: string | undefined
     lastPropHash: string | undefined
@@ -81,6 +84,8 @@ type Awaitable<T> = T | Promise<T>
 export type SignalKeyStore = {
     get<T extends keyof SignalDataTypeMap>(type: T, ids: string[]): Awaitable<{ [id: string]: SignalDataTypeMap[T] }>
     set(data: SignalDataSet): Awaitable<void>
+    /** list the IDs stored for a type, required to export the auth state */
+    list?<T extends keyof SignalDataTypeMap>(type: T): Awaitable<string[]>
     /** clear all the data in the store */
     clear?(): Awaitable<void>
 }
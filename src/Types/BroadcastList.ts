@@ -0,0 +1,12 @@
+/**
+ * a list of users a message can be sent to at once,
+ * each recipient receives it in their own chat with us
+ */
+export interface BroadcastList {
+    /** JID of the list, e.g. 1712345678901@broadcast */
+    id: string
+    name: string
+    recipients: string[]
+    /** unix timestamp of when the list was created */
+    creation: number
+}
@@ -19,6 +19,17 @@ export type WAPrivacyCallValue = 'all' | 'known'
 
 export type WAPrivacyMessagesValue = 'all' | 'contacts'
 
+/** who statuses are shared with: all contacts, all contacts except some, or only some contacts */
+export type WAStatusPrivacyType = 'contacts' | 'blacklist' | 'whitelist'
+
+export type WAStatusPrivacy = {
+    type: WAStatusPrivacyType
+    /** is this the setting new statuses use */
+    isDefault: boolean
+    /** the contacts excluded or included, depending on the type */
+    list: string[]
+}
+
 /** set of statuses visible to other people; see updatePresence() in WhatsAppWeb.Send */
 export type WAPresence = 'unavailable' | 'available' | 'composing' | 'recording' | 'paused'
 
@@ -39,6 +50,8 @@ export type BotListInfo = {
 export type ChatMutation = {
     syncAction: proto.ISyncActionData
     index: string[]
+    /** whether the action was set or removed, a set is assumed when not specified */
+    operation?: proto.SyncdMutation.SyncdOperation
 }
 
 export type WAPatchCreate = {
@@ -73,6 +86,42 @@ export type ChatUpdate = Partial<Chat & {
  * */
 export type LastMessageList = MinimalMessage[] | proto.SyncActionValue.ISyncActionMessageRange
 
+export type QuickReply = {
+    /** ID the quick reply is synced with */
+    id: string
+    /** text that brings up the quick reply, without the leading "/" */
+    shortcut: string
+    message: string
+    keywords: string[]
+    /** number of times the quick reply has been used */
+    count: number
+    deleted: boolean
+}
+
+export type QuickReplyActionBody = {
+    /** ID of the quick reply to edit, a new one is created if not specified */
+    id?: string
+    shortcut: string
+    message: string
+    keywords?: string[]
+    /** set to delete the quick reply */
+    deleted?: boolean
+}
+
+/** an account setting synced between the user's devices */
+export type WASettingUpdate =
+    | { setting: 'locale', value: string }
+    | { setting: 'securityNotifications', value: boolean }
+    | { setting: 'twentyFourHourTime', value: boolean }
+    | { setting: 'disableLinkPreviews', value: boolean }
+    | { setting: 'relayAllCalls', value: boolean }
+    /** IDs of the chats marked as favorite */
+    | { setting: 'favorites', value: string[] }
+    /** features enabled on the primary device */
+    | { setting: 'primaryFeatures', value: string[] }
+    /** a new user experience prompt was acknowledged */
+    | { setting: 'nux', value: { id: string, acknowledged: boolean } }
+
 export type ChatModification =
     {
         archive: boolean
@@ -107,6 +156,22 @@ export type ChatModification =
     | { removeChatLabel: ChatLabelAssociationActionBody }
     | { addMessageLabel: MessageLabelAssociationActionBody }
     | { removeMessageLabel: MessageLabelAssociationActionBody }
+    // Quick reply
+    | { quickReply: QuickReplyActionBody }
+    // Contact, saved to the address book
+    | { contact: proto.SyncActionValue.IContactAction }
+    | { removeContact: true }
+    | { lockChat: boolean }
+    // Account settings, synced to the user's other devices
+    | { localeSetting: string }
+    | { securityNotificationSetting: boolean }
+    | { twentyFourHourTime: boolean }
+    | { disableLinkPreviews: boolean }
+    | { relayAllCalls: boolean }
+    /** replaces the chats marked as favorite */
+    | { favorites: string[] }
+    /** acknowledges a new user experience prompt */
+    | { nux: { id: string, acknowledged: boolean } }
 
 export type InitialReceivedChatsState = {
     [jid: string]: {
@@ -2,10 +2,13 @@ import type { Boom } from '@hapi/boom'
 import { proto } from '../../WAProto'
 import { AuthenticationCreds } from './Auth'
 import { WACallEvent } from './Call'
-import { Chat, ChatUpdate, PresenceData } from './Chat'
+import { Chat, ChatUpdate, PresenceData, QuickReply, WASettingUpdate } from './Chat'
 import { Contact } from './Contact'
-import { GroupMetadata, ParticipantAction, RequestJoinAction, RequestJoinMethod } from './GroupMetadata'
-import { MessageUpsertType, MessageUserReceiptUpdate, WAMessage, WAMessageKey, WAMessageUpdate } from './Message'
+import { CommunityLinkAction, GroupMetadata, ParticipantAction, RequestJoinAction, RequestJoinMethod } from './GroupMetadata'
+import { Label } from './Label'
+import { LabelAssociation } from './LabelAssociation'
+import { MessageUpsertType, MessageUserReceiptUpdate, PollTally, WAMessage, WAMessageKey, WAMessageUpdate } from './Message'
+import { NewsletterMetadata } from './Newsletter'
 import { ConnectionState } from './State'
 
 export type BaileysEventMap = {
@@ -34,6 +37,8 @@ export type BaileysEventMap = {
 
     'contacts.upsert': Contact[]
     'contacts.update': Partial<Contact>[]
+    /** contacts removed from the address book, the users themselves remain on WA */
+    'contacts.delete': string[]
 
     'messages.delete': { keys: WAMessageKey[] } | { jid: string, all: true }
     'messages.update': WAMessageUpdate[]
@@ -45,12 +50,40 @@ export type BaileysEventMap = {
      *  */
     'messages.upsert': { messages: WAMessage[], type: MessageUpsertType, requestId?: string }
     'message-receipt.update': MessageUserReceiptUpdate[]
+    /** contacts viewed statuses we posted */
+    'status.viewers': { key: WAMessageKey, viewer: string, timestamp: number }[]
+    /**
+     * a reaction on a message was added, changed or removed.
+     * `key` is the message reacted to, a removed reaction has no `reaction.text`
+     */
+    'messages.reaction': { key: WAMessageKey, reaction: proto.IReaction }[]
+    /** the current tally of a poll, emitted every time a vote on it is decrypted */
+    'poll-tally.update': PollTally
 
     'groups.upsert': GroupMetadata[]
     'groups.update': Partial<GroupMetadata>[]
     /** apply an action to participants in a group */
     'group-participants.update': { id: string, author: string, participants: string[], action: ParticipantAction }
     'group.join-request': { id: string, author: string, participant: string, action: RequestJoinAction, method: RequestJoinMethod }
+    /** a group was linked to or unlinked from a community, `id` is the community's JID */
+    'community.link-update': { id: string, author: string, group: string, action: CommunityLinkAction }
+
+    /** the reactions to a post in a channel changed, `removed` is set when the post has no reactions left */
+    'newsletter.reaction': { id: string, serverId: string, reaction: { code?: string, count?: number, removed?: boolean } }
+    /** the view count of a post in a channel changed */
+    'newsletter.view': { id: string, serverId: string, count: number }
+    /** the metadata or settings of a channel changed */
+    'newsletter.update': { id: string, update: Partial<NewsletterMetadata> }
+
+    /** a label was created, edited or deleted */
+    'labels.edit': Label
+    /** a label was added to or removed from a chat or message */
+    'labels.association': { association: LabelAssociation, type: 'add' | 'remove' }
+
+    /** a quick reply was created, edited or deleted */
+    'quick-reply.update': QuickReply
+    /** an account setting was changed on one of the user's devices */
+    'settings.update': WASettingUpdate
 
     'blocklist.set': { blocklist: string[] }
     'blocklist.update': { blocklist: string[], type: 'add' | 'remove' }
@@ -36,6 +36,8 @@ export interface GroupMetadata {
     isCommunity?: boolean
     /** is this the announce of a community */
     isCommunityAnnounce?: boolean
+    /** is set when members of the community can add their own groups to it */
+    allowNonAdminSubGroupCreation?: boolean
     /** number of group participants */
     size?: number
     // Baileys modified array
@@ -46,6 +48,18 @@ export interface GroupMetadata {
     author?: string
 }
 
+/** a group linked to a community, as listed by the community */
+export interface CommunityLinkedGroup {
+    id: string
+    subject: string
+    creation?: number
+    owner?: string
+    size?: number
+    /** is this the community's announcement group */
+    isCommunityAnnounce: boolean
+}
+
+export type CommunityLinkAction = 'link' | 'unlink'
 
 export interface WAGroupCreateResponse {
     status: number
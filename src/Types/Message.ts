@@ -68,6 +68,25 @@ type WithDimensions = {
     width?: number
     height?: number
 }
+type Footerable = {
+    footer?: string
+}
+type Buttonable = {
+    /** send as a buttons message, the text or caption is its content */
+    buttons?: ButtonInfo[]
+}
+type Templatable = {
+    /** send as a template message, the text or caption is its content */
+    templateButtons?: TemplateButton[]
+}
+type Listable = {
+    /** send as a list message, the text is its description */
+    sections?: ListSection[]
+    /** title of the list */
+    title?: string
+    /** text of the button that opens the list */
+    buttonText?: string
+}
 
 export type PollMessageOptions = {
     name: string
@@ -78,6 +97,25 @@ export type PollMessageOptions = {
     toAnnouncementGroup?: boolean
 }
 
+/** an item of an album */
+export type AlbumMediaContent =
+    | { image: WAMediaUpload, caption?: string }
+    | { video: WAMediaUpload, caption?: string, gifPlayback?: boolean }
+
+export type EventMessageOptions = {
+    name: string
+    description?: string
+    location?: WALocationMessage
+    startTime: Date
+    endTime?: Date
+    /** link to the call of the event */
+    joinLink?: string
+    /** whether guests can bring others along */
+    extraGuestsAllowed?: boolean
+    /** 32 byte message secret to encrypt responses */
+    messageSecret?: Uint8Array
+}
+
 type SharePhoneNumber = {
     sharePhoneNumber: boolean
 }
@@ -92,7 +130,7 @@ export type AnyMediaMessageContent = (
         image: WAMediaUpload
         caption?: string
         jpegThumbnail?: string
-    } & Mentionable & Contextable & WithDimensions)
+    } & Mentionable & Contextable & WithDimensions & Buttonable & Templatable & Footerable)
     | ({
         video: WAMediaUpload
         caption?: string
@@ -100,7 +138,7 @@ export type AnyMediaMessageContent = (
         jpegThumbnail?: string
         /** if set to true, will send as a `video note` */
         ptv?: boolean
-    } & Mentionable & Contextable & WithDimensions)
+    } & Mentionable & Contextable & WithDimensions & Buttonable & Templatable & Footerable)
     | {
         audio: WAMediaUpload
         /** if set to true, will send as a `voice note` */
@@ -116,7 +154,7 @@ export type AnyMediaMessageContent = (
         mimetype: string
         fileName?: string
         caption?: string
-    } & Contextable))
+    } & Contextable & Buttonable & Templatable & Footerable))
     & { mimetype?: string } & Editable
 
 export type ButtonReplyInfo = {
@@ -125,6 +163,39 @@ export type ButtonReplyInfo = {
     index: number
 }
 
+/** a button that replies with its ID when tapped */
+export type ButtonInfo = {
+    id: string
+    displayText: string
+}
+
+/** a button of a template or native flow message */
+export type InteractiveButton =
+    | { type: 'quick_reply', displayText: string, id: string }
+    | { type: 'url', displayText: string, url: string }
+    | { type: 'call', displayText: string, phoneNumber: string }
+    /** copies the code when tapped, only supported in native flow messages */
+    | { type: 'copy_code', displayText: string, code: string }
+
+export type TemplateButton = Exclude<InteractiveButton, { type: 'copy_code' }>
+
+export type ListSection = {
+    title: string
+    rows: { id: string, title: string, description?: string }[]
+}
+
+export type InteractiveMessageOptions = {
+    body: string
+    footer?: string
+    /** shown above the body */
+    title?: string
+    subtitle?: string
+    /** shown above the body, uploaded like a regular media message */
+    media?: { image: WAMediaUpload } | { video: WAMediaUpload } | { document: WAMediaUpload, mimetype: string, fileName?: string }
+    /** sent as native flow buttons */
+    buttons: InteractiveButton[]
+}
+
 export type GroupInviteInfo = {
     inviteCode: string
     inviteExpiration: number
@@ -142,11 +213,18 @@ export type AnyRegularMessageContent = (
 	    text: string
         linkPreview?: WAUrlInfo | null
     }
-    & Mentionable & Contextable & Editable)
+    & Mentionable & Contextable & Editable & Buttonable & Templatable & Listable & Footerable)
     | AnyMediaMessageContent
     | ({
         poll: PollMessageOptions
     } & Mentionable & Contextable & Editable)
+    | ({
+        event: EventMessageOptions
+    } & Contextable)
+    | {
+        /** the images & videos to group, each is sent as a message of its own after the album */
+        album: AlbumMediaContent[]
+    }
     | {
         contacts: {
             displayName?: string
@@ -167,6 +245,9 @@ export type AnyRegularMessageContent = (
     | {
         listReply: Omit<proto.Message.IListResponseMessage, 'contextInfo'>
     }
+    | ({
+        interactive: InteractiveMessageOptions
+    } & Contextable)
     | {
         pin: WAMessageKey
         type: proto.PinInChat.Type
@@ -195,6 +276,52 @@ export type AnyMessageContent = AnyRegularMessageContent | {
 
 export type GroupMetadataParticipants = Pick<GroupMetadata, 'participants'>
 
+/** the votes on a poll so far */
+export type PollTally = {
+    /** key of the poll creation message */
+    key: WAMessageKey
+    /** the question asked */
+    name: string
+    /** every option, with the users that voted for it */
+    votes: { name: string, voters: string[] }[]
+    /**
+     * the poll wasn't cached when the vote came in, so the tally only has the votes received since.
+     * Rebuild the full tally from the stored poll message with `getAggregateVotesInPollMessage`
+     */
+    isPartial: boolean
+}
+
+/** users that have responded to an event, by their response */
+export type EventResponseTally = {
+    going: string[]
+    notGoing: string[]
+    maybe: string[]
+}
+
+/**
+ * track the delivery of a sent message.
+ * In groups, pass a participant's JID to wait for that participant only,
+ * otherwise every participant must have received/read the message
+ */
+export type MessageDeliveryHandle = {
+    /** resolves once WA has accepted the message, rejects if WA rejected it */
+    waitForServerAck(timeoutMs?: number): Promise<void>
+    /** resolves once the message has reached a device of the recipient(s) */
+    waitForDelivery(jid?: string, timeoutMs?: number): Promise<void>
+    /** resolves once the recipient(s) have read/played the message */
+    waitForRead(jid?: string, timeoutMs?: number): Promise<void>
+}
+
+/** a message returned from `sendMessage`, the delivery handle is not enumerable so it's never serialized */
+export type SentWAMessage = WAMessage & MessageDeliveryHandle
+
+/** what `sendAlbum` returns, the album's message & those of its items in the order they were given */
+export type SentAlbum<TrackItems extends boolean = false> = {
+    album: SentWAMessage
+    /** the items can only be tracked if `trackItems` was set */
+    items: TrackItems extends true ? SentWAMessage[] : WAMessage[]
+}
+
 type MinimalRelayOptions = {
     /** override the message ID with a custom provided string */
     messageId?: string
@@ -232,11 +359,46 @@ export type MiscMessageGenerationOptions = MinimalRelayOptions & {
     /** if it is broadcast */
     broadcast?: boolean
 }
+
+export type AlbumSendOptions = MiscMessageGenerationOptions & {
+    /** how many items to upload at once */
+    uploadConcurrency?: number
+    /** override the IDs of the items' messages, in the order of the items */
+    itemMessageIds?: string[]
+    /** track the delivery of every item, not just the album's */
+    trackItems?: boolean
+}
+
+/** who a status is shared with */
+export type StatusAudience =
+    /** exactly these users */
+    | { type: 'list', jids: string[] }
+    /** these contacts, narrowed down by the account's default status privacy setting */
+    | { type: 'contacts', contacts: string[] }
+
+export type StatusSendOptions = Omit<MiscMessageGenerationOptions, 'statusJidList' | 'broadcast'> & {
+    audience: StatusAudience
+}
+
 export type MessageGenerationOptionsFromContent = MiscMessageGenerationOptions & {
 	userJid: string
 }
 
-export type WAMediaUploadFunction = (readStream: Readable, opts: { fileEncSha256B64: string, mediaType: MediaType, timeoutMs?: number }) => Promise<{ mediaUrl: string, directPath: string }>
+export type WAMediaUploadFunction = (
+    readStream: Readable,
+    opts: {
+        fileEncSha256B64: string
+        mediaType: MediaType
+        timeoutMs?: number
+        /** upload to the newsletter endpoints, newsletter media isn't encrypted */
+        newsletter?: boolean
+    }
+) => Promise<{
+    mediaUrl: string
+    directPath: string
+    /** set for newsletter uploads, sent as the post's `media_id` */
+    handle?: string
+}>
 
 export type MediaGenerationOptions = {
 	logger?: ILogger
@@ -246,6 +408,8 @@ export type MediaGenerationOptions = {
     mediaCache?: CacheStore
 
     mediaUploadTimeoutMs?: number
+    /** the media is for a newsletter post, it's uploaded without encryption */
+    newsletter?: boolean
 
     options?: AxiosRequestConfig
 
@@ -268,7 +432,18 @@ export type MessageUpsertType = 'append' | 'notify'
 
 export type MessageUserReceipt = proto.IUserReceipt
 
-export type WAMessageUpdate = { update: Partial<WAMessage>, key: proto.IMessageKey }
+export type WAMessageUpdate = {
+    update: Partial<WAMessage>
+    key: proto.IMessageKey
+    /** present on an event's responses, every response known to the event so far */
+    eventResponseTally?: EventResponseTally & {
+        /**
+         * the event wasn't cached when the response came in, so the tally only has the responses received since.
+         * Rebuild the full tally from the stored event message with `getAggregateResponsesInEventMessage`
+         */
+        isPartial: boolean
+    }
+}
 
 export type WAMessageCursor = { before: WAMessageKey | undefined } | { after: WAMessageKey | undefined }
 
@@ -0,0 +1,66 @@
+import { proto } from '../../WAProto'
+import { ILogger } from '../Utils/logger'
+import { AnyMessageContent, MessageRelayOptions, MiscMessageGenerationOptions, WAMessage } from './Message'
+
+type Awaitable<T> = T | Promise<T>
+
+/** higher lanes are always drained first */
+export type MessageQueuePriority = 'high' | 'normal' | 'low'
+
+export type QueuedMessage = {
+    /** the ID the message is sent with, stays the same across re-sends */
+    id: string
+    jid: string
+    priority: MessageQueuePriority
+    /** unix timestamp in ms of when the message was queued */
+    enqueuedAt: number
+    /** number of failed attempts to send the message */
+    attempts: number
+} & (
+    {
+        type: 'send'
+        content: AnyMessageContent
+        options?: MiscMessageGenerationOptions
+    } | {
+        type: 'relay'
+        message: proto.IMessage
+        options?: MessageRelayOptions
+    }
+)
+
+/**
+ * persists pending messages, so they survive a restart.
+ * Items must be stored as-is, they may contain binary data
+ */
+export type MessageQueueStore = {
+    /** loads every pending message */
+    load(): Awaitable<QueuedMessage[]>
+    /** saves a message, replacing any existing one with the same ID */
+    save(item: QueuedMessage): Awaitable<void>
+    remove(id: string): Awaitable<void>
+}
+
+export type RateLimit = {
+    /** max number of messages that can be sent in a burst */
+    capacity: number
+    /** number of messages the limit recovers by every second */
+    refillPerSecond: number
+}
+
+export type MessageQueueConfig = {
+    /** where pending messages are kept, in memory by default */
+    store?: MessageQueueStore
+    /** limit across all chats */
+    globalRateLimit: RateLimit
+    /** limit applied to each chat separately */
+    chatRateLimit: RateLimit
+    /** drop a message after these many failed attempts */
+    maxAttempts: number
+    /** delay before a failed message is retried */
+    retryDelayMs: number
+    logger?: ILogger
+    /** called once a message has been sent */
+    onSent?(item: QueuedMessage, msg: WAMessage | undefined): void
+    /** called when a message is dropped after exhausting its attempts */
+    onFailed?(item: QueuedMessage, error: Error): void
+}
@@ -0,0 +1,69 @@
+import { proto } from '../../WAProto'
+
+/** which reactions subscribers can use on posts */
+export type NewsletterReactionMode = 'ALL' | 'BASIC' | 'NONE'
+
+export type NewsletterState = 'ACTIVE' | 'GEOSUSPENDED' | 'SUSPENDED'
+
+export type NewsletterVerification = 'VERIFIED' | 'UNVERIFIED'
+
+export type NewsletterMute = 'ON' | 'OFF' | 'UNDEFINED'
+
+export type NewsletterViewRole = 'ADMIN' | 'GUEST' | 'OWNER' | 'SUBSCRIBER'
+
+export interface NewsletterMetadata {
+    id: string
+    state: NewsletterState
+    name: string
+    /** unix timestamp of when the name was last changed */
+    nameTime?: number
+    description?: string
+    /** unix timestamp of when the description was last changed */
+    descriptionTime?: number
+    /** code of the channel's invite link, i.e. whatsapp.com/channel/<invite> */
+    invite?: string
+    handle?: string
+    /** direct path of the channel's picture */
+    picture?: string
+    /** direct path of the channel's picture preview */
+    preview?: string
+    reactionMode?: NewsletterReactionMode
+    subscribers?: number
+    verification?: NewsletterVerification
+    creation?: number
+    /** how the user relates to the channel */
+    viewer?: { mute: NewsletterMute, role: NewsletterViewRole }
+}
+
+export type NewsletterReactionCount = { code: string, count: number }
+
+/** a post in a channel & its engagement */
+export type NewsletterFetchedUpdate = {
+    /** ID of the post on the server, used to react to it */
+    serverId: string
+    views?: number
+    reactions: NewsletterReactionCount[]
+    /** the post itself, not present when fetching updates */
+    message?: proto.IWebMessageInfo
+}
+
+/** IDs of the queries used to manage channels */
+export enum NewsletterQueryId {
+    JOB_MUTATION = '7150902998257522',
+    METADATA = '6620195908089573',
+    UNFOLLOW = '7238632346214362',
+    FOLLOW = '7871414976211147',
+    UNMUTE = '7337137176362961',
+    MUTE = '25151904754424642',
+    CREATE = '6996806640408138',
+    ADMIN_COUNT = '7130823597031706',
+    DELETE = '8316537688363079'
+}
+
+/** where the result of a query is, in the response */
+export enum NewsletterResultPath {
+    CREATE = 'xwa2_newsletter_create',
+    NEWSLETTER = 'xwa2_newsletter',
+    ADMIN_COUNT = 'xwa2_newsletter_admin',
+    METADATA_UPDATE = 'xwa2_notify_newsletter_on_metadata_update'
+}
@@ -3,6 +3,7 @@ import { AxiosRequestConfig } from 'axios'
 import type { Agent } from 'https'
 import type { URL } from 'url'
 import { proto } from '../../WAProto'
+import type { AbstractSocketClient } from '../Socket/Client'
 import { ILogger } from '../Utils/logger'
 import { AuthenticationState, SignalAuthState, TransactionCapabilityOptions } from './Auth'
 import { GroupMetadata } from './GroupMetadata'
@@ -23,6 +24,8 @@ export type CacheStore = {
     flushAll(): void
 }
 
+export type SocketClientConstructor = new (url: URL, config: SocketConfig) => AbstractSocketClient
+
 export type PatchedMessageWithRecipientJID = proto.IMessage & {recipientJid?: string}
 
 export type SocketConfig = {
@@ -36,6 +39,8 @@ export type SocketConfig = {
     keepAliveIntervalMs: number
     /** proxy agent */
     agent?: Agent
+    /** the transport to connect with, defaults to a WebSocket */
+    socketClient?: SocketClientConstructor
     /** logger */
     logger: ILogger
     /** version to connect with */
@@ -78,6 +83,31 @@ export type SocketConfig = {
     userDevicesCache?: CacheStore
     /** cache to store call offers */
     callOfferCache?: CacheStore
+    /**
+     * cache to store polls sent or received & the votes on them,
+     * so votes can be decrypted & tallied without `getMessage`
+     * */
+    pollCache?: CacheStore
+    /**
+     * cache to store the IDs of messages we've asked the phone to resend,
+     * so each message is only requested once
+     * */
+    placeholderResendCache?: CacheStore
+    /**
+     * cache to store the metadata of groups we're in, kept up to date from group events;
+     * used when sending to a group if `cachedGroupMetadata` has nothing
+     * */
+    groupMetadataCache?: CacheStore
+    /**
+     * cache to store who the statuses we've posted were shared with, so they can be deleted;
+     * provide a persistent one to delete statuses posted before a restart
+     * */
+    statusRecipientsCache?: CacheStore
+    /**
+     * cache to store the broadcast list each message we've sent to one went to,
+     * so receipts from its recipients map back to the list; provide a persistent one to keep them across restarts
+     * */
+    broadcastMessageCache?: CacheStore
     /** width for link preview images */
     linkPreviewImageThumbnailWidth: number
     /** Should Baileys ask the phone for full history, will be received async */
@@ -120,8 +150,24 @@ export type SocketConfig = {
      * */
     getMessage: (key: proto.IMessageKey) => Promise<proto.IMessage | undefined>
 
-    /** cached group metadata, use to prevent redundant requests to WA & speed up msg sending */
+    /**
+     * cached group metadata, use to prevent redundant requests to WA & speed up msg sending.
+     * Takes precedence over `groupMetadataCache`
+     * */
     cachedGroupMetadata: (jid: string) => Promise<GroupMetadata | undefined>
 
     makeSignalRepository: (auth: SignalAuthState) => SignalRepository
 }
+
+export type ReconnectConfig = {
+    /** delay before the first reconnect attempt */
+    initialDelayMs: number
+    /** upper bound of the delay between attempts */
+    maxDelayMs: number
+    /** factor the delay grows by after every failed attempt */
+    factor: number
+    /** fraction (0-1) of the delay that is randomised, so many clients don't reconnect in lockstep */
+    jitter: number
+    /** stop after these many consecutive failed attempts, undefined to retry forever */
+    maxAttempts?: number
+}
@@ -9,12 +9,22 @@ export * from './Events'
 export * from './Product'
 export * from './Call'
 export * from './Signal'
+export * from './Label'
+export * from './LabelAssociation'
+export * from './MessageQueue'
+export * from './Newsletter'
+export * from './BroadcastList'
 
 import { AuthenticationState } from './Auth'
-import { SocketConfig } from './Socket'
+import { ReconnectConfig, SocketConfig } from './Socket'
 
 export type UserFacingSocketConfig = Partial<SocketConfig> & { auth: AuthenticationState }
 
+export type SupervisedSocketConfig = UserFacingSocketConfig & {
+    /** how to back off between reconnect attempts */
+    reconnect?: Partial<ReconnectConfig>
+}
+
 export type BrowsersMap = {
     ubuntu(browser: string): [string, string, string]
     macOS(browser: string): [string, string, string]
@@ -48,6 +58,31 @@ export type WABusinessHoursConfig = {
     close_time?: number
 }
 
+export type WABusinessDay = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat'
+
+/** a day's opening hours, times are in minutes since midnight */
+export type WABusinessDayHours =
+    | { mode: 'open_24h' | 'appointment_only' }
+    | { mode: 'specific_hours', ranges: { open: number, close: number }[] }
+
+/** the weekly schedule of a business, days that are missing are closed */
+export type WABusinessHours = {
+    /** IANA timezone the times are in, e.g. 'America/Sao_Paulo' */
+    timezone: string
+    days: { [D in WABusinessDay]?: WABusinessDayHours }
+}
+
+/** fields left undefined are not changed */
+export type WABusinessProfileUpdate = {
+    description?: string
+    email?: string
+    websites?: string[]
+    address?: string
+    /** ID of the business category */
+    categoryId?: string
+    hours?: WABusinessHours
+}
+
 export type WABusinessProfile = {
     description: string
     email: string | undefined
@@ -0,0 +1,172 @@
+import { Boom } from '@hapi/boom'
+import { proto } from '../../WAProto'
+import { SIGNAL_DATA_TYPES } from '../Defaults'
+import { AuthenticationCreds, AuthenticationState, SignalDataSet, SignalDataTypeMap } from '../Types'
+import { BufferJSON } from './generics'
+
+const ARCHIVE_VERSION = 1
+
+/** a complete, portable copy of an auth state */
+export type AuthStateArchive = {
+	version: number
+	/** unix timestamp in ms of when the archive was made */
+	exportedAt: number
+	creds: AuthenticationCreds
+	keys: { [T in keyof SignalDataTypeMap]?: { [id: string]: SignalDataTypeMap[T] } }
+}
+
+/** creds without which the session cannot be resumed */
+const REQUIRED_KEY_PAIRS = ['noiseKey', 'signedIdentityKey', 'pairingEphemeralKeyPair'] as const
+
+const isBinary = (value: unknown) => Buffer.isBuffer(value) || value instanceof Uint8Array
+
+function assertArchive(archive: unknown): asserts archive is AuthStateArchive {
+	const fail = (message: string) => {
+		throw new Boom(`invalid auth state archive: ${message}`, { statusCode: 400 })
+	}
+
+	if(!archive || typeof archive !== 'object') {
+		fail('not an object')
+	}
+
+	const { version, creds, keys } = archive as Partial<AuthStateArchive>
+	if(version !== ARCHIVE_VERSION) {
+		fail(`unsupported version "${version}"`)
+	}
+
+	if(!creds || typeof creds !== 'object') {
+		fail('missing creds')
+	}
+
+	for(const name of REQUIRED_KEY_PAIRS) {
+		const pair = creds![name]
+		if(!isBinary(pair?.private) || !isBinary(pair?.public)) {
+			fail(`creds.${name} is not a key pair`)
+		}
+	}
+
+	if(!isBinary(creds!.signedPreKey?.keyPair?.private) || !isBinary(creds!.signedPreKey?.signature)) {
+		fail('creds.signedPreKey is not a signed key pair')
+	}
+
+	if(typeof creds!.registrationId !== 'number' || typeof creds!.advSecretKey !== 'string') {
+		fail('creds are missing registration details')
+	}
+
+	if(!keys || typeof keys !== 'object') {
+		fail('missing keys')
+	}
+
+	for(const type in keys) {
+		if(!SIGNAL_DATA_TYPES.includes(type as keyof SignalDataTypeMap)) {
+			fail(`unknown key type "${type}"`)
+		}
+
+		const dict = keys[type as keyof SignalDataTypeMap]!
+		for(const id in dict) {
+			if(!dict[id]) {
+				fail(`empty value for ${type} "${id}"`)
+			}
+		}
+	}
+}
+
+/**
+ * exports the creds & every signal key of an auth state into a single archive,
+ * which can be imported into any other store with `importAuthState`
+ * @param state the auth state to export, its key store must implement `list`
+ * @returns the archive serialized with BufferJSON
+ */
+export const exportAuthState = async({ creds, keys }: AuthenticationState): Promise<string> => {
+	if(!keys.list) {
+		throw new Boom('key store does not support listing keys, cannot export', { statusCode: 400 })
+	}
+
+	const archiveKeys: { [type: string]: { [id: string]: unknown } } = { }
+
+	for(const type of SIGNAL_DATA_TYPES) {
+		const ids = await keys.list(type)
+		if(!ids.length) {
+			continue
+		}
+
+		const stored = await keys.get(type, ids)
+		const dict: { [id: string]: unknown } = { }
+		for(const id of ids) {
+			const value = stored[id]
+			if(value) {
+				dict[id] = type === 'app-state-sync-key'
+					? proto.Message.AppStateSyncKeyData.toObject(value as proto.Message.AppStateSyncKeyData)
+					: value
+			}
+		}
+
+		archiveKeys[type] = dict
+	}
+
+	const archive = {
+		version: ARCHIVE_VERSION,
+		exportedAt: Date.now(),
+		creds,
+		keys: archiveKeys
+	} as AuthStateArchive
+	return JSON.stringify(archive, BufferJSON.replacer)
+}
+
+/**
+ * validates an archive made by `exportAuthState` & writes it into the target store,
+ * replacing its creds. The linked session can then be resumed without re-pairing.
+ * Keys left over in the target would mix with the imported ones & break decryption,
+ * so the target must be empty -- or `overwrite` set to clear it first
+ * @param bundle the serialized or parsed archive
+ * @param target the auth state to import into & the function to persist its creds,
+ * its key store must implement `list`
+ */
+export const importAuthState = async(
+	bundle: string | AuthStateArchive,
+	target: { state: AuthenticationState, saveCreds: () => Promise<void> },
+	{ overwrite = false }: { overwrite?: boolean } = { }
+) => {
+	const archive: unknown = typeof bundle === 'string'
+		? JSON.parse(bundle, BufferJSON.reviver)
+		: bundle
+	assertArchive(archive)
+
+	const { keys } = target.state
+	if(!keys.list) {
+		throw new Boom('key store does not support listing keys, cannot import', { statusCode: 400 })
+	}
+
+	const existing: { [type: string]: { [id: string]: null } } = { }
+	for(const type of SIGNAL_DATA_TYPES) {
+		const ids = await keys.list(type)
+		if(ids.length) {
+			existing[type] = Object.fromEntries(ids.map(id => [id, null]))
+		}
+	}
+
+	if(Object.keys(existing).length) {
+		if(!overwrite) {
+			throw new Boom('target auth state is not empty, pass "overwrite" to replace it', { statusCode: 409 })
+		}
+
+		await keys.set(existing as SignalDataSet)
+	}
+
+	const data: { [type: string]: { [id: string]: unknown } } = { }
+	for(const type in archive.keys) {
+		const dict: { [id: string]: unknown } = { ...archive.keys[type as keyof SignalDataTypeMap] }
+		if(type === 'app-state-sync-key') {
+			for(const id in dict) {
+				dict[id] = proto.Message.AppStateSyncKeyData.fromObject(dict[id] as { [k: string]: unknown })
+			}
+		}
+
+		data[type] = dict
+	}
+
+	await keys.set(data as SignalDataSet)
+
+	Object.assign(target.state.creds, archive.creds)
+	await target.saveCreds()
+}
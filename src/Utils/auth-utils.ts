@@ -67,6 +67,9 @@ export function makeCacheableSignalKeyStore(
 
 			await store.set(data)
 		},
+		list: store.list
+			? type => store.list!(type)
+			: undefined,
 		async clear() {
 			cache.flushAll()
 			await store.clear?.()
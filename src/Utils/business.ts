@@ -0,0 +1,319 @@
+import { Boom } from '@hapi/boom'
+import { createHash } from 'crypto'
+import { CatalogCollection, CatalogStatus, OrderDetails, OrderProduct, Product, ProductCreate, ProductUpdate, WABusinessDay, WABusinessDayHours, WABusinessHours, WABusinessHoursConfig, WABusinessProfile, WAMediaUpload, WAMediaUploadFunction } from '../Types'
+import { BinaryNode, getBinaryNodeChild, getBinaryNodeChildren, getBinaryNodeChildString } from '../WABinary'
+import { getStream, getUrlFromDirectPath, toReadable } from './messages-media'
+
+export const parseCatalogNode = (node: BinaryNode) => {
+	const catalogNode = getBinaryNodeChild(node, 'product_catalog')
+	const products = getBinaryNodeChildren(catalogNode, 'product').map(parseProductNode)
+	const paging = getBinaryNodeChild(catalogNode, 'paging')
+
+	return {
+		products,
+		/** pass as the cursor to fetch the next page, undefined on the last page */
+		nextPageCursor: paging
+			? getBinaryNodeChildString(paging, 'after')
+			: undefined
+	}
+}
+
+export const parseCollectionsNode = (node: BinaryNode) => {
+	const collectionsNode = getBinaryNodeChild(node, 'collections')
+	const collections = getBinaryNodeChildren(collectionsNode, 'collection').map<CatalogCollection>(
+		collectionNode => ({
+			id: getBinaryNodeChildString(collectionNode, 'id')!,
+			name: getBinaryNodeChildString(collectionNode, 'name')!,
+			products: getBinaryNodeChildren(collectionNode, 'product').map(parseProductNode),
+			status: parseStatusInfo(collectionNode)
+		})
+	)
+
+	return { collections }
+}
+
+export const parseOrderDetailsNode = (node: BinaryNode) => {
+	const orderNode = getBinaryNodeChild(node, 'order')
+	const products = getBinaryNodeChildren(orderNode, 'product').map<OrderProduct>(
+		productNode => {
+			const imageNode = getBinaryNodeChild(productNode, 'image')
+			return {
+				id: getBinaryNodeChildString(productNode, 'id')!,
+				name: getBinaryNodeChildString(productNode, 'name')!,
+				imageUrl: getBinaryNodeChildString(imageNode, 'url')!,
+				price: +getBinaryNodeChildString(productNode, 'price')!,
+				currency: getBinaryNodeChildString(productNode, 'currency')!,
+				quantity: +getBinaryNodeChildString(productNode, 'quantity')!
+			}
+		}
+	)
+
+	const priceNode = getBinaryNodeChild(orderNode, 'price')
+	const orderDetails: OrderDetails = {
+		price: {
+			total: +getBinaryNodeChildString(priceNode, 'total')!,
+			currency: getBinaryNodeChildString(priceNode, 'currency')!
+		},
+		products
+	}
+
+	return orderDetails
+}
+
+/**
+ * builds the node to create or edit a product with
+ * @param productId the product to edit, undefined when creating one
+ */
+export const toProductNode = (productId: string | undefined, product: ProductCreate | ProductUpdate) => {
+	const attrs: BinaryNode['attrs'] = { }
+	const content: BinaryNode[] = [ ]
+
+	const addString = (tag: string, value: string | undefined) => {
+		if(typeof value !== 'undefined') {
+			content.push({ tag, attrs: { }, content: Buffer.from(value) })
+		}
+	}
+
+	addString('id', productId)
+	addString('name', product.name)
+	addString('description', product.description)
+	addString('retailer_id', product.retailerId)
+	addString('url', product.url)
+
+	if(product.images?.length) {
+		content.push({
+			tag: 'media',
+			attrs: { },
+			content: product.images.map(
+				img => {
+					if(Buffer.isBuffer(img) || !('url' in img)) {
+						throw new Boom('Expected product image to already be uploaded', { statusCode: 400 })
+					}
+
+					return {
+						tag: 'image',
+						attrs: { },
+						content: [
+							{ tag: 'url', attrs: { }, content: Buffer.from(img.url.toString()) }
+						]
+					}
+				}
+			)
+		})
+	}
+
+	addString('price', product.price?.toString())
+	addString('currency', product.currency)
+
+	if('originCountryCode' in product) {
+		if(typeof product.originCountryCode === 'undefined') {
+			attrs['compliance_category'] = 'COUNTRY_ORIGIN_EXEMPT'
+		} else {
+			content.push({
+				tag: 'compliance_info',
+				attrs: { },
+				content: [
+					{ tag: 'country_code_origin', attrs: { }, content: Buffer.from(product.originCountryCode) }
+				]
+			})
+		}
+	}
+
+	if(typeof product.isHidden !== 'undefined') {
+		attrs['is_hidden'] = product.isHidden.toString()
+	}
+
+	const node: BinaryNode = {
+		tag: 'product',
+		attrs,
+		content
+	}
+	return node
+}
+
+export const parseProductNode = (productNode: BinaryNode) => {
+	const mediaNode = getBinaryNodeChild(productNode, 'media')
+	const statusInfoNode = getBinaryNodeChild(productNode, 'status_info')
+
+	const product: Product = {
+		id: getBinaryNodeChildString(productNode, 'id')!,
+		imageUrls: parseImageUrls(mediaNode),
+		reviewStatus: {
+			whatsapp: getBinaryNodeChildString(statusInfoNode, 'status')!
+		},
+		availability: 'in stock',
+		name: getBinaryNodeChildString(productNode, 'name')!,
+		retailerId: getBinaryNodeChildString(productNode, 'retailer_id'),
+		url: getBinaryNodeChildString(productNode, 'url'),
+		description: getBinaryNodeChildString(productNode, 'description')!,
+		price: +getBinaryNodeChildString(productNode, 'price')!,
+		currency: getBinaryNodeChildString(productNode, 'currency')!,
+		isHidden: productNode.attrs.is_hidden === 'true'
+	}
+
+	return product
+}
+
+/** uploads the images of a product that aren't on WA's servers yet */
+export const uploadingNecessaryImagesOfProduct = async<T extends ProductCreate | ProductUpdate>(
+	product: T,
+	waUploadToServer: WAMediaUploadFunction,
+	timeoutMs = 30_000
+): Promise<T> => ({
+	...product,
+	images: product.images
+		? await uploadingNecessaryImages(product.images, waUploadToServer, timeoutMs)
+		: product.images
+})
+
+/**
+ * uploads images that aren't on WA's servers yet
+ * @returns the URLs of all the images, in the same order
+ */
+export const uploadingNecessaryImages = async(
+	images: WAMediaUpload[],
+	waUploadToServer: WAMediaUploadFunction,
+	timeoutMs = 30_000
+) => {
+	const results = await Promise.all(
+		images.map<Promise<{ url: string }>>(
+			async img => {
+				if(!Buffer.isBuffer(img) && 'url' in img) {
+					const url = img.url.toString()
+					if(url.includes('.whatsapp.net')) {
+						return { url }
+					}
+				}
+
+				const { stream } = await getStream(img)
+				const hasher = createHash('sha256')
+				const contentBlocks: Buffer[] = []
+				for await (const block of stream) {
+					hasher.update(block)
+					contentBlocks.push(block)
+				}
+
+				const { directPath } = await waUploadToServer(
+					toReadable(Buffer.concat(contentBlocks)),
+					{
+						mediaType: 'product-catalog-image',
+						fileEncSha256B64: hasher.digest('base64'),
+						timeoutMs
+					}
+				)
+				return { url: getUrlFromDirectPath(directPath) }
+			}
+		)
+	)
+	return results
+}
+
+const parseImageUrls = (mediaNode: BinaryNode | undefined) => {
+	const imgNode = getBinaryNodeChild(mediaNode, 'image')
+	return {
+		requested: getBinaryNodeChildString(imgNode, 'request_image_url')!,
+		original: getBinaryNodeChildString(imgNode, 'original_image_url')!
+	}
+}
+
+const parseStatusInfo = (node: BinaryNode): CatalogStatus => {
+	const statusNode = getBinaryNodeChild(node, 'status_info')
+	return {
+		status: getBinaryNodeChildString(statusNode, 'status')!,
+		canAppeal: getBinaryNodeChildString(statusNode, 'can_appeal') === 'true'
+	}
+}
+
+const BUSINESS_DAYS: WABusinessDay[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+const MINUTES_IN_DAY = 24 * 60
+
+/**
+ * converts the raw business hours of a profile to a weekly schedule
+ * @returns undefined if the business hasn't set its hours
+ */
+export const parseBusinessHours = ({ timezone, config, business_config }: WABusinessProfile['business_hours']) => {
+	const configs = config || business_config
+	if(!timezone || !configs?.length) {
+		return undefined
+	}
+
+	const hours: WABusinessHours = { timezone, days: { } }
+	for(const { day_of_week: day, mode, open_time: open, close_time: close } of configs) {
+		if(!BUSINESS_DAYS.includes(day as WABusinessDay)) {
+			continue
+		}
+
+		// times come in as strings, straight from the node's attributes
+		let dayHours = hours.days[day as WABusinessDay]
+		if(mode === 'specific_hours') {
+			if(dayHours?.mode !== 'specific_hours') {
+				dayHours = { mode, ranges: [] }
+			}
+
+			dayHours.ranges.push({ open: +open!, close: +close! })
+		} else {
+			dayHours = { mode: mode as 'open_24h' | 'appointment_only' }
+		}
+
+		hours.days[day as WABusinessDay] = dayHours
+	}
+
+	return hours
+}
+
+/** converts a weekly schedule to the business hours config WA expects */
+export const toBusinessHoursConfig = ({ days }: WABusinessHours) => {
+	const configs: WABusinessHoursConfig[] = []
+	for(const day of BUSINESS_DAYS) {
+		const dayHours = days[day]
+		if(dayHours?.mode === 'specific_hours') {
+			for(const { open, close } of dayHours.ranges) {
+				configs.push({ 'day_of_week': day, mode: dayHours.mode, 'open_time': open, 'close_time': close })
+			}
+		} else if(dayHours) {
+			configs.push({ 'day_of_week': day, mode: dayHours.mode })
+		}
+	}
+
+	return configs
+}
+
+/**
+ * whether the business is open at the given time, in its own timezone.
+ * Businesses that only take appointments are considered closed
+ */
+export const isBusinessOpen = ({ timezone, days }: WABusinessHours, date: Date | number = new Date()) => {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone: timezone,
+		weekday: 'short',
+		hour: 'numeric',
+		minute: 'numeric',
+		hourCycle: 'h23'
+	}).formatToParts(date)
+	const getPart = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)!.value
+
+	const dayIdx = BUSINESS_DAYS.indexOf(getPart('weekday').toLowerCase() as WABusinessDay)
+	const minutes = +getPart('hour') * 60 + +getPart('minute')
+
+	const isOpenOn = (dayHours: WABusinessDayHours | undefined, minutes: number) => {
+		if(dayHours?.mode === 'open_24h') {
+			return true
+		}
+
+		if(dayHours?.mode !== 'specific_hours') {
+			return false
+		}
+
+		return dayHours.ranges.some(({ open, close }) => (
+			// a range that closes past midnight ends on the following day
+			close > open
+				? minutes >= open && minutes < close
+				: minutes >= open && minutes < close + MINUTES_IN_DAY
+		))
+	}
+
+	const yesterday = BUSINESS_DAYS[(dayIdx + BUSINESS_DAYS.length - 1) % BUSINESS_DAYS.length]
+	return isOpenOn(days[BUSINESS_DAYS[dayIdx]], minutes)
+		|| (days[yesterday]?.mode === 'specific_hours' && isOpenOn(days[yesterday], minutes + MINUTES_IN_DAY))
+}
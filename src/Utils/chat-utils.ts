@@ -8,7 +8,7 @@ import { toNumber } from './generics'
 import { ILogger } from './logger'
 import { LT_HASH_ANTI_TAMPERING } from './lt-hash'
 import { downloadContentFromMessage, } from './messages-media'
-import { LabelAssociationType } from '../Types/LabelAssociation'
+import { LabelAssociation, LabelAssociationType } from '../Types/LabelAssociation'
 
 
 type FetchAppStateSyncKey = (keyId: string) => Promise<proto.Message.IAppStateSyncKeyData | null | undefined>
@@ -225,7 +225,7 @@ export const decodeSyncdMutations = async(
 		}
 
 		const indexStr = Buffer.from(syncAction.index!).toString()
-		onMutation({ syncAction, index: JSON.parse(indexStr) })
+		onMutation({ syncAction, index: JSON.parse(indexStr), operation: operation! })
 
 		ltGenerator.mix({
 			indexMac: record.index!.blob!,
@@ -703,6 +703,123 @@ export const chatModificationToAppPatch = (
 			apiVersion: 3,
 			operation: OP.SET,
 		}
+	} else if('quickReply' in mod) {
+		const { id, shortcut, message, keywords, deleted } = mod.quickReply
+		patch = {
+			syncAction: {
+				quickReplyAction: {
+					shortcut,
+					message,
+					keywords: keywords || [],
+					count: 0,
+					deleted: !!deleted
+				}
+			},
+			index: ['quick_reply', id || Date.now().toString()],
+			type: 'regular',
+			apiVersion: 2,
+			operation: OP.SET,
+		}
+	} else if('contact' in mod) {
+		patch = {
+			syncAction: {
+				contactAction: mod.contact
+			},
+			index: ['contact', jid],
+			type: 'critical_unblock_low',
+			apiVersion: 2,
+			operation: OP.SET,
+		}
+	} else if('removeContact' in mod) {
+		patch = {
+			syncAction: {
+				contactAction: { }
+			},
+			index: ['contact', jid],
+			type: 'critical_unblock_low',
+			apiVersion: 2,
+			operation: OP.REMOVE,
+		}
+	} else if('lockChat' in mod) {
+		patch = {
+			syncAction: {
+				lockChatAction: { locked: mod.lockChat }
+			},
+			index: ['lock_chat', jid],
+			type: 'regular_high',
+			apiVersion: 7,
+			operation: OP.SET,
+		}
+	} else if('localeSetting' in mod) {
+		patch = {
+			syncAction: {
+				localeSetting: { locale: mod.localeSetting }
+			},
+			index: ['setting_locale'],
+			type: 'critical_block',
+			apiVersion: 3,
+			operation: OP.SET,
+		}
+	} else if('securityNotificationSetting' in mod) {
+		patch = {
+			syncAction: {
+				securityNotificationSetting: { showNotification: mod.securityNotificationSetting }
+			},
+			index: ['setting_securityNotification'],
+			type: 'regular_low',
+			apiVersion: 4,
+			operation: OP.SET,
+		}
+	} else if('twentyFourHourTime' in mod) {
+		patch = {
+			syncAction: {
+				timeFormatAction: { isTwentyFourHourFormatEnabled: mod.twentyFourHourTime }
+			},
+			index: ['time_format'],
+			type: 'regular_low',
+			apiVersion: 7,
+			operation: OP.SET,
+		}
+	} else if('disableLinkPreviews' in mod) {
+		patch = {
+			syncAction: {
+				privacySettingDisableLinkPreviewsAction: { isPreviewsDisabled: mod.disableLinkPreviews }
+			},
+			index: ['setting_disableLinkPreviews'],
+			type: 'regular_low',
+			apiVersion: 8,
+			operation: OP.SET,
+		}
+	} else if('relayAllCalls' in mod) {
+		patch = {
+			syncAction: {
+				privacySettingRelayAllCalls: { isEnabled: mod.relayAllCalls }
+			},
+			index: ['setting_relayAllCalls'],
+			type: 'regular_low',
+			apiVersion: 8,
+			operation: OP.SET,
+		}
+	} else if('favorites' in mod) {
+		patch = {
+			syncAction: {
+				favoritesAction: { favorites: mod.favorites.map(id => ({ id })) }
+			},
+			index: ['favorites'],
+			type: 'regular_low',
+			apiVersion: 7,
+			operation: OP.SET,
+		}
+	} else if('nux' in mod) {
+		patch = {
+			syncAction: {
+				nuxAction: { acknowledged: mod.nux.acknowledged }
+			},
+			index: ['nux', mod.nux.id],
+			type: 'regular',
+			apiVersion: 7,
+			operation: OP.SET,
+		}
 	} else {
 		throw new Boom('not supported')
 	}
@@ -726,7 +843,8 @@ export const processSyncAction = (
 
 	const {
 		syncAction: { value: action },
-		index: [type, id, msgId, fromMe]
+		index: [type, id, msgId, fromMe],
+		operation
 	} = syncAction
 
 	if(action?.muteAction) {
@@ -793,8 +911,12 @@ export const processSyncAction = (
 				}
 			]
 		})
-	} else if(action?.contactAction) {
-		ev.emit('contacts.upsert', [{ id, name: action.contactAction.fullName! }])
+	} else if(action?.contactAction || type === 'contact') {
+		if(operation === proto.SyncdMutation.SyncdOperation.REMOVE) {
+			ev.emit('contacts.delete', [id])
+		} else {
+			ev.emit('contacts.upsert', [{ id, name: action?.contactAction?.fullName! }])
+		}
 	} else if(action?.pushNameSetting) {
 		const name = action?.pushNameSetting?.name
 		if(name && me?.name !== name) {
@@ -830,6 +952,71 @@ export const processSyncAction = (
 		if(!isInitialSync) {
 			ev.emit('chats.delete', [id])
 		}
+	} else if(action?.clearChatAction || type === 'clearChat') {
+		if(!isInitialSync) {
+			ev.emit('messages.delete', { jid: id, all: true })
+		}
+	} else if(action?.lockChatAction) {
+		ev.emit('chats.update', [{
+			id,
+			locked: !!action.lockChatAction.locked,
+			conditional: getChatUpdateConditional(id, undefined)
+		}])
+	} else if(action?.quickReplyAction) {
+		const { shortcut, message, keywords, count, deleted } = action.quickReplyAction
+		ev.emit('quick-reply.update', {
+			id,
+			shortcut: shortcut || '',
+			message: message || '',
+			keywords: keywords || [],
+			count: count || 0,
+			deleted: !!deleted
+		})
+	} else if(action?.localeSetting) {
+		ev.emit('settings.update', { setting: 'locale', value: action.localeSetting.locale || '' })
+	} else if(action?.securityNotificationSetting) {
+		ev.emit('settings.update', {
+			setting: 'securityNotifications',
+			value: !!action.securityNotificationSetting.showNotification
+		})
+	} else if(action?.timeFormatAction) {
+		ev.emit('settings.update', {
+			setting: 'twentyFourHourTime',
+			value: !!action.timeFormatAction.isTwentyFourHourFormatEnabled
+		})
+	} else if(action?.privacySettingDisableLinkPreviewsAction) {
+		ev.emit('settings.update', {
+			setting: 'disableLinkPreviews',
+			value: !!action.privacySettingDisableLinkPreviewsAction.isPreviewsDisabled
+		})
+	} else if(action?.privacySettingRelayAllCalls) {
+		ev.emit('settings.update', { setting: 'relayAllCalls', value: !!action.privacySettingRelayAllCalls.isEnabled })
+	} else if(action?.favoritesAction) {
+		const favorites = action.favoritesAction.favorites || []
+		ev.emit('settings.update', { setting: 'favorites', value: favorites.map(f => f.id!) })
+	} else if(action?.primaryFeature) {
+		ev.emit('settings.update', { setting: 'primaryFeatures', value: action.primaryFeature.flags || [] })
+	} else if(action?.nuxAction) {
+		ev.emit('settings.update', { setting: 'nux', value: { id, acknowledged: !!action.nuxAction.acknowledged } })
+	} else if(action?.labelEditAction) {
+		const { name, color, deleted, predefinedId } = action.labelEditAction
+		ev.emit('labels.edit', {
+			id,
+			name: name!,
+			color: color!,
+			deleted: !!deleted,
+			predefinedId: predefinedId ? String(predefinedId) : undefined
+		})
+	} else if(action?.labelAssociationAction) {
+		// index is [type, labelId, chatId] & the message ID for message labels
+		const [, labelId, chatId, messageId] = syncAction.index
+		const association: LabelAssociation = type === LabelAssociationType.Chat
+			? { type: LabelAssociationType.Chat, chatId, labelId }
+			: { type: LabelAssociationType.Message, chatId, messageId, labelId }
+		ev.emit('labels.association', {
+			association,
+			type: action.labelAssociationAction.labeled ? 'add' : 'remove'
+		})
 	} else {
 		logger?.debug({ syncAction, id }, 'unprocessable update')
 	}
@@ -0,0 +1,152 @@
+import { Boom } from '@hapi/boom'
+import { EventEmitter } from 'events'
+import NodeCache from '@cacheable/node-cache'
+import { proto } from '../../WAProto'
+import { DEFAULT_CACHE_TTLS } from '../Defaults'
+import { DisconnectReason, MessageDeliveryHandle, SentWAMessage, WAMessage } from '../Types'
+import { isJidBroadcast, isJidGroup, isJidStatusBroadcast, jidNormalizedUser } from '../WABinary'
+import { promiseTimeout } from './generics'
+
+type TrackedMessage = {
+	jid: string
+	/** set once WA acks the message */
+	ack?: { error?: string }
+	/** users the message has reached */
+	delivered: Set<string>
+	/** users that have read/played the message */
+	read: Set<string>
+	isExpired?: boolean
+}
+
+type DeliveryTrackerOptions = {
+	/** how long to keep tracking a sent message, in seconds */
+	ttlSeconds?: number
+	/** default timeout for `waitForServerAck` */
+	ackTimeoutMs?: number
+	/** lists who a group or broadcast list message must reach, excluding ourselves */
+	getGroupRecipients: (jid: string) => Promise<string[]>
+}
+
+/**
+ * keeps track of the acks & receipts of messages we've sent,
+ * so `sendMessage` can hand out promises for a message's delivery
+ */
+export const makeDeliveryTracker = ({
+	ttlSeconds = DEFAULT_CACHE_TTLS.MSG_DELIVERY,
+	ackTimeoutMs,
+	getGroupRecipients
+}: DeliveryTrackerOptions) => {
+	const tracked = new NodeCache({ stdTTL: ttlSeconds, useClones: false })
+	// emits the ID of a message whenever its state changes
+	const ev = new EventEmitter()
+	ev.setMaxListeners(0)
+
+	tracked.on('expired', (id: string, state: TrackedMessage) => {
+		state.isExpired = true
+		ev.emit(id)
+	})
+
+	const waitFor = (id: string, isDone: (state: TrackedMessage) => boolean, timeoutMs: number | undefined) => {
+		const state = tracked.get<TrackedMessage>(id)
+		if(!state) {
+			return Promise.reject(new Boom('Message is not being tracked', { statusCode: 404, data: { id } }))
+		}
+
+		let listener: (() => void) | undefined
+		return promiseTimeout<void>(timeoutMs, (resolve, reject) => {
+			listener = () => {
+				try {
+					if(isDone(state)) {
+						resolve()
+					} else if(state.isExpired) {
+						reject(new Boom('Stopped tracking message', { statusCode: DisconnectReason.timedOut, data: { id } }))
+					}
+				} catch(error) {
+					reject(error)
+				}
+			}
+
+			ev.on(id, listener)
+			listener()
+		})
+			.finally(() => ev.off(id, listener!))
+	}
+
+	/** @returns the users a message must reach for it to count as delivered/read */
+	const getRecipients = async(state: TrackedMessage, jid: string | undefined) => {
+		if(jid) {
+			return [jidNormalizedUser(jid)]
+		}
+
+		if(isJidGroup(state.jid) || (isJidBroadcast(state.jid) && !isJidStatusBroadcast(state.jid))) {
+			return getGroupRecipients(state.jid)
+		}
+
+		return [jidNormalizedUser(state.jid)]
+	}
+
+	const waitForReceipts = async(id: string, type: 'delivered' | 'read', jid: string | undefined, timeoutMs: number | undefined) => {
+		const state = tracked.get<TrackedMessage>(id)
+		const recipients = state ? await getRecipients(state, jid) : []
+		return waitFor(id, current => recipients.every(user => current[type].has(user)), timeoutMs)
+	}
+
+	return {
+		/** starts tracking a message, call before the message is sent so no ack is missed */
+		track: (id: string, jid: string) => {
+			tracked.set(id, { jid, delivered: new Set(), read: new Set() })
+		},
+		/** stops tracking a message, for one that failed to send */
+		untrack: (id: string) => {
+			tracked.del(id)
+		},
+		onServerAck: (id: string, error?: string) => {
+			const state = tracked.get<TrackedMessage>(id)
+			if(state && !state.ack) {
+				state.ack = { error }
+				ev.emit(id)
+			}
+		},
+		onReceipt: (id: string, userJid: string, status: proto.WebMessageInfo.Status) => {
+			const state = tracked.get<TrackedMessage>(id)
+			if(!state || status < proto.WebMessageInfo.Status.DELIVERY_ACK) {
+				return
+			}
+
+			const user = jidNormalizedUser(userJid)
+			state.delivered.add(user)
+			if(status >= proto.WebMessageInfo.Status.READ) {
+				state.read.add(user)
+			}
+
+			// a receipt can only be sent for a message WA has accepted
+			state.ack = state.ack || { }
+			ev.emit(id)
+		},
+		/** adds the delivery handle to a message that is being tracked */
+		attachHandle: (msg: WAMessage): SentWAMessage => {
+			const id = msg.key.id!
+			const handle: MessageDeliveryHandle = {
+				waitForServerAck: (timeoutMs = ackTimeoutMs) => waitFor(
+					id,
+					({ ack }) => {
+						if(ack?.error) {
+							throw new Boom('Message was rejected by WA', { statusCode: +ack.error || 500, data: { id } })
+						}
+
+						return !!ack
+					},
+					timeoutMs
+				),
+				waitForDelivery: (jid, timeoutMs) => waitForReceipts(id, 'delivered', jid, timeoutMs),
+				waitForRead: (jid, timeoutMs) => waitForReceipts(id, 'read', jid, timeoutMs)
+			}
+
+			for(const key in handle) {
+				Object.defineProperty(msg, key, { value: handle[key as keyof MessageDeliveryHandle], enumerable: false })
+			}
+
+			return msg as SentWAMessage
+		}
+	}
+}
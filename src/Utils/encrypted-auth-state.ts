@@ -0,0 +1,261 @@
+import { Boom } from '@hapi/boom'
+import { pbkdf2, randomBytes } from 'crypto'
+import { promisify } from 'util'
+import { proto } from '../../WAProto'
+import { SIGNAL_DATA_TYPES } from '../Defaults'
+import { AuthenticationCreds, AuthenticationState, SignalDataSet, SignalDataTypeMap } from '../Types'
+import { initAuthCreds } from './auth-utils'
+import { aesDecryptGCM, aesEncryptGCM, sha256 } from './crypto'
+import { BufferJSON } from './generics'
+import { ILogger } from './logger'
+
+const pbkdf2Promise = promisify(pbkdf2)
+
+const ENVELOPE_VERSION = 1
+const IV_LENGTH = 12
+const DEFAULT_SALT = Buffer.from('baileys-auth-state')
+const CREDS_AAD = 'creds'
+const PACKED_ENVELOPE_PREFIX = Buffer.from('BAE1')
+
+/** raw 32 byte key, or a passphrase the key is derived from */
+export type AuthStateEncryptionKey = Buffer | { passphrase: string, salt?: Buffer }
+
+export type EncryptedAuthStateOptions = {
+	/** key used to encrypt all values written to the store */
+	key: AuthStateEncryptionKey
+	/**
+	 * keys the store may have been encrypted with previously,
+	 * values encrypted with these are re-encrypted with the current key when read
+	 */
+	previousKeys?: AuthStateEncryptionKey[]
+	/**
+	 * accept values that were stored unencrypted & encrypt them on read,
+	 * use to migrate an existing plain auth state.
+	 * Otherwise unencrypted creds are rejected, unless they're unregistered --
+	 * in which case they're replaced with freshly generated ones
+	 */
+	allowPlaintext?: boolean
+	logger?: ILogger
+}
+
+/** the shape an encrypted value takes in the underlying store */
+export type EncryptedAuthValue = {
+	encryptedAuthValue: number
+	keyId: string
+	iv: Buffer
+	ciphertext: Buffer
+}
+
+type ResolvedKey = { id: string, key: Buffer }
+
+const resolveKey = async(key: AuthStateEncryptionKey): Promise<ResolvedKey> => {
+	const buff = Buffer.isBuffer(key)
+		? key
+		: await pbkdf2Promise(key.passphrase, key.salt || DEFAULT_SALT, 2 << 16, 32, 'sha256')
+	if(buff.length !== 32) {
+		throw new Boom('auth state encryption key must be 32 bytes', { statusCode: 400 })
+	}
+
+	return { id: sha256(buff).subarray(0, 4).toString('hex'), key: buff }
+}
+
+const isEncryptedValue = (value: unknown): value is EncryptedAuthValue => (
+	!!value && typeof value === 'object' && 'encryptedAuthValue' in value
+)
+
+/**
+ * stores read app state sync keys through `AppStateSyncKeyData.fromObject`,
+ * which drops unknown fields -- so the envelope is packed into `keyData` for those
+ */
+const packEnvelope = (type: string, envelope: EncryptedAuthValue) => {
+	if(type !== 'app-state-sync-key') {
+		return envelope
+	}
+
+	return { keyData: Buffer.concat([PACKED_ENVELOPE_PREFIX, Buffer.from(JSON.stringify(envelope, BufferJSON.replacer))]) }
+}
+
+const unpackEnvelope = (value: unknown) => {
+	const keyData = (value as { keyData?: Uint8Array } | undefined)?.keyData
+	if(keyData && Buffer.from(keyData.subarray(0, PACKED_ENVELOPE_PREFIX.length)).equals(PACKED_ENVELOPE_PREFIX)) {
+		return JSON.parse(Buffer.from(keyData.subarray(PACKED_ENVELOPE_PREFIX.length)).toString(), BufferJSON.reviver)
+	}
+
+	return value
+}
+
+/**
+ * wraps an auth state so every value (creds & signal keys) is encrypted with AES-256-GCM
+ * before it reaches the underlying store.
+ * Each value is bound to its category & ID, so values that were modified
+ * or moved to a different key throw when read
+ * @param authState the state & creds saver returned by `useMultiFileAuthState` or similar
+ */
+export const makeEncryptedAuthState = async(
+	{ state, saveCreds }: { state: AuthenticationState, saveCreds: () => Promise<void> },
+	{ key, previousKeys = [], allowPlaintext = false, logger }: EncryptedAuthStateOptions
+): Promise<{ state: AuthenticationState, saveCreds: () => Promise<void>, rotateKeys: () => Promise<number> }> => {
+	const currentKey = await resolveKey(key)
+	const keyMap = new Map<string, Buffer>()
+	for(const { id, key } of await Promise.all(previousKeys.map(resolveKey))) {
+		keyMap.set(id, key)
+	}
+
+	keyMap.set(currentKey.id, currentKey.key)
+
+	const encrypt = (value: unknown, aad: string): EncryptedAuthValue => {
+		const iv = randomBytes(IV_LENGTH)
+		const plaintext = Buffer.from(JSON.stringify(value, BufferJSON.replacer))
+		return {
+			encryptedAuthValue: ENVELOPE_VERSION,
+			keyId: currentKey.id,
+			iv,
+			ciphertext: aesEncryptGCM(plaintext, currentKey.key, iv, Buffer.from(aad))
+		}
+	}
+
+	/** @returns the decrypted value & whether it must be re-encrypted with the current key */
+	const decrypt = (value: unknown, aad: string) => {
+		if(!isEncryptedValue(value)) {
+			if(!allowPlaintext) {
+				throw new Boom('found unencrypted value in encrypted auth state', { statusCode: 400, data: { aad } })
+			}
+
+			return { value, stale: true }
+		}
+
+		const key = keyMap.get(value.keyId)
+		if(!key) {
+			throw new Boom('auth state value encrypted with unknown key', { statusCode: 400, data: { aad, keyId: value.keyId } })
+		}
+
+		let plaintext: Buffer
+		try {
+			plaintext = aesDecryptGCM(value.ciphertext, key, value.iv, Buffer.from(aad))
+		} catch(error) {
+			throw new Boom('auth state value failed integrity check', { statusCode: 400, data: { aad } })
+		}
+
+		return {
+			value: JSON.parse(plaintext.toString(), BufferJSON.reviver),
+			stale: value.keyId !== currentKey.id
+		}
+	}
+
+	const storedCreds = state.creds as AuthenticationCreds | EncryptedAuthValue
+	let creds: AuthenticationCreds
+	let credsStale: boolean
+	if(isEncryptedValue(storedCreds)) {
+		({ value: creds, stale: credsStale } = decrypt(storedCreds, CREDS_AAD))
+	} else if(allowPlaintext) {
+		// a copy, the store's own creds object is overwritten with the envelope
+		creds = { ...storedCreds }
+		credsStale = true
+	} else if(!storedCreds.me) {
+		// unregistered creds are what a fresh store generates, but could have been planted
+		// with keys known to someone else -- so they're never used, nothing is lost
+		creds = initAuthCreds()
+		credsStale = true
+	} else {
+		throw new Boom('found unencrypted creds in encrypted auth state', { statusCode: 400 })
+	}
+
+	const writeCreds = async() => {
+		const envelope = encrypt(creds, CREDS_AAD)
+		// the underlying store persists its own creds object
+		const target = state.creds as unknown as { [_: string]: unknown }
+		for(const key of Object.keys(target)) {
+			delete target[key]
+		}
+
+		Object.assign(target, envelope)
+		await saveCreds()
+	}
+
+	if(credsStale && creds.me) {
+		logger?.info('re-encrypting creds with current key')
+		await writeCreds()
+	}
+
+	/** reads & decrypts keys, re-encrypting those stored with a previous key */
+	const readKeys = async<T extends keyof SignalDataTypeMap>(type: T, ids: string[]) => {
+		const stored = await state.keys.get(type, ids)
+		const data: { [_: string]: SignalDataTypeMap[T] } = { }
+		const reencrypted: { [_: string]: unknown } = { }
+		for(const id of ids) {
+			const value = stored[id]
+			if(!value) {
+				continue
+			}
+
+			const aad = `${type}:${id}`
+			const result = decrypt(unpackEnvelope(value), aad)
+			data[id] = type === 'app-state-sync-key'
+				? proto.Message.AppStateSyncKeyData.fromObject(result.value)
+				: result.value
+			if(result.stale) {
+				reencrypted[id] = packEnvelope(type, encrypt(result.value, aad))
+			}
+		}
+
+		const reencryptedCount = Object.keys(reencrypted).length
+		if(reencryptedCount) {
+			logger?.debug({ type, count: reencryptedCount }, 're-encrypting keys with current key')
+			await state.keys.set({ [type]: reencrypted } as unknown as SignalDataSet)
+		}
+
+		return { data, reencryptedCount }
+	}
+
+	return {
+		state: {
+			creds,
+			keys: {
+				get: async(type, ids) => {
+					const { data } = await readKeys(type, ids)
+					return data
+				},
+				set: async(data) => {
+					const encrypted: { [category: string]: { [id: string]: unknown } } = { }
+					for(const category in data) {
+						encrypted[category] = { }
+						for(const id in data[category]) {
+							const value = data[category][id]
+							encrypted[category][id] = value ? packEnvelope(category, encrypt(value, `${category}:${id}`)) : null
+						}
+					}
+
+					await state.keys.set(encrypted as unknown as SignalDataSet)
+				},
+				list: state.keys.list
+					? type => state.keys.list!(type)
+					: undefined
+			}
+		},
+		saveCreds: writeCreds,
+		/**
+		 * re-encrypts the creds & every key still stored with a previous key,
+		 * after which the previous keys are no longer needed.
+		 * The underlying key store must implement `list`
+		 * @returns the number of keys re-encrypted
+		 */
+		rotateKeys: async() => {
+			if(!state.keys.list) {
+				throw new Boom('key store does not support listing keys, cannot rotate', { statusCode: 400 })
+			}
+
+			let count = 0
+			for(const type of SIGNAL_DATA_TYPES) {
+				const ids = await state.keys.list(type)
+				if(ids.length) {
+					const { reencryptedCount } = await readKeys(type, ids)
+					count += reencryptedCount
+				}
+			}
+
+			await writeCreds()
+			logger?.info({ count }, 'rotated auth state keys')
+			return count
+		}
+	}
+}
@@ -1,9 +1,9 @@
 import EventEmitter from 'events'
 import { proto } from '../../WAProto'
 import { BaileysEvent, BaileysEventEmitter, BaileysEventMap, BufferedEventData, Chat, ChatUpdate, Contact, WAMessage, WAMessageStatus } from '../Types'
-import { trimUndefined } from './generics'
+import { getKeyAuthor, trimUndefined } from './generics'
 import { ILogger } from './logger'
-import { updateMessageWithReceipt } from './messages'
+import { updateMessageWithEventResponse, updateMessageWithPollUpdate, updateMessageWithReaction, updateMessageWithReceipt } from './messages'
 import { isRealMessage, shouldIncrementChatUnread } from './process-message'
 
 const BUFFERABLE_EVENT = [
@@ -17,6 +17,7 @@ const BUFFERABLE_EVENT = [
 	'messages.update',
 	'messages.delete',
 	'message-receipt.update',
+	'messages.reaction',
 	'groups.update',
 ] as const
 
@@ -33,7 +34,7 @@ type BaileysEventData = Partial<BaileysEventMap>
 
 const BUFFERABLE_EVENT_SET = new Set<BaileysEvent>(BUFFERABLE_EVENT)
 
-type BaileysBufferableEventEmitter = BaileysEventEmitter & {
+export type BaileysBufferableEventEmitter = BaileysEventEmitter & {
 	/** Use to process events in a batch */
 	process(handler: (events: BaileysEventData) => void | Promise<void>): (() => void)
 	/**
@@ -391,11 +392,20 @@ function append<E extends BufferableEvent>(
 		break
 	case 'messages.update':
 		const msgUpdates = eventData as BaileysEventMap['messages.update']
-		for(const { key, update } of msgUpdates) {
+		for(const { key, update, eventResponseTally } of msgUpdates) {
 			const keyStr = stringifyMessageKey(key)
 			const existing = data.historySets.messages[keyStr] || data.messageUpserts[keyStr]?.message
 			if(existing) {
-				Object.assign(existing, update)
+				const { pollUpdates, eventResponses, ...rest } = update
+				Object.assign(existing, rest)
+				for(const pollUpdate of pollUpdates || []) {
+					updateMessageWithPollUpdate(existing, pollUpdate)
+				}
+
+				for(const eventResponse of eventResponses || []) {
+					updateMessageWithEventResponse(existing, eventResponse)
+				}
+
 				// if the message was received & read by us
 				// the chat counter must have been incremented
 				// so we need to decrement it
@@ -404,11 +414,42 @@ function append<E extends BufferableEvent>(
 				}
 			} else {
 				const msgUpdate = data.messageUpdates[keyStr] || { key, update: { } }
-				Object.assign(msgUpdate.update, update)
+				// votes & responses pile up, so none are lost before the update is flushed
+				const pollUpdates = update.pollUpdates && [...(msgUpdate.update.pollUpdates || []), ...update.pollUpdates]
+				const eventResponses = update.eventResponses && [...(msgUpdate.update.eventResponses || []), ...update.eventResponses]
+				Object.assign(
+					msgUpdate.update,
+					update,
+					pollUpdates ? { pollUpdates } : { },
+					eventResponses ? { eventResponses } : { }
+				)
+				// the latest tally already counts the earlier responses
+				if(eventResponseTally) {
+					msgUpdate.eventResponseTally = eventResponseTally
+				}
+
 				data.messageUpdates[keyStr] = msgUpdate
 			}
 		}
 
+		break
+	case 'messages.reaction':
+		const reactions = eventData as BaileysEventMap['messages.reaction']
+		for(const { key, reaction } of reactions) {
+			const keyStr = stringifyMessageKey(key)
+			const existing = data.historySets.messages[keyStr] || data.messageUpserts[keyStr]?.message
+			if(existing) {
+				updateMessageWithReaction(existing, reaction)
+			} else {
+				const msgReactions = data.messageReactions[keyStr] || { key, reactions: [] }
+				// removals are kept as well, so they reach whoever stored the previous reaction
+				const authorID = getKeyAuthor(reaction.key)
+				msgReactions.reactions = msgReactions.reactions.filter(r => getKeyAuthor(r.key) !== authorID)
+				msgReactions.reactions.push(reaction)
+				data.messageReactions[keyStr] = msgReactions
+			}
+		}
+
 		break
 	case 'messages.delete':
 		const deleteData = eventData as BaileysEventMap['messages.delete']
@@ -454,10 +495,7 @@ function append<E extends BufferableEvent>(
 		for(const update of groupUpdates) {
 			const id = update.id!
 			const groupUpdate = data.groupUpdates[id] || { }
-			if(!data.groupUpdates[id]) {
-				data.groupUpdates[id] = Object.assign(groupUpdate, update)
-
-			}
+			data.groupUpdates[id] = Object.assign(groupUpdate, update)
 		}
 
 		break
@@ -558,6 +596,13 @@ function consolidateEvents(data: BufferedEventData) {
 		map['message-receipt.update'] = messageReceiptList
 	}
 
+	const messageReactionList = Object.values(data.messageReactions).flatMap(
+		({ key, reactions }) => reactions.map(reaction => ({ key, reaction }))
+	)
+	if(messageReactionList.length) {
+		map['messages.reaction'] = messageReactionList
+	}
+
 	const contactUpsertList = Object.values(data.contactUpserts)
 	if(contactUpsertList.length) {
 		map['contacts.upsert'] = contactUpsertList
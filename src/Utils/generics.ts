@@ -181,6 +181,23 @@ export async function promiseTimeout<T>(ms: number | undefined, promise: (resolv
 	return p as Promise<T>
 }
 
+/** maps the items with an async function, running at most `concurrency` calls at once */
+export const mapWithConcurrency = async<T, R>(items: T[], concurrency: number, fn: (item: T, idx: number) => Promise<R>) => {
+	const results: R[] = new Array(items.length)
+	let next = 0
+	const worker = async() => {
+		while(next < items.length) {
+			const idx = next++
+			results[idx] = await fn(items[idx], idx)
+		}
+	}
+
+	await Promise.all(
+		Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, worker)
+	)
+	return results
+}
+
 // inspired from whatsmeow code
 // https://github.com/tulir/whatsmeow/blob/64bc969fbe78d31ae0dd443b8d4c80a5d026d07a/send.go#L42
 export const generateMessageIDV2 = (userId?: string): string => {
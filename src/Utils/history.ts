@@ -2,7 +2,7 @@ import { AxiosRequestConfig } from 'axios'
 import { promisify } from 'util'
 import { inflate } from 'zlib'
 import { proto } from '../../WAProto'
-import { Chat, Contact, WAMessageStubType } from '../Types'
+import { Chat, Contact, LabelAssociationType, MessageLabelAssociation, WAMessageStubType } from '../Types'
 import { isJidUser } from '../WABinary'
 import { toNumber } from './generics'
 import { normalizeMessageContent } from './messages'
@@ -33,6 +33,7 @@ export const processHistoryMessage = (item: proto.IHistorySync) => {
 	const messages: proto.IWebMessageInfo[] = []
 	const contacts: Contact[] = []
 	const chats: Chat[] = []
+	const labelAssociations: MessageLabelAssociation[] = []
 
 	switch (item.syncType) {
 	case proto.HistorySync.HistorySyncType.INITIAL_BOOTSTRAP:
@@ -57,6 +58,15 @@ export const processHistoryMessage = (item: proto.IHistorySync) => {
 					chat.messages = [{ message }]
 				}
 
+				for(const labelId of message.labels || []) {
+					labelAssociations.push({
+						type: LabelAssociationType.Message,
+						chatId: chat.id,
+						messageId: message.key.id!,
+						labelId
+					})
+				}
+
 				if(!message.key.fromMe && !chat.lastMessageRecvTimestamp) {
 					chat.lastMessageRecvTimestamp = toNumber(message.messageTimestamp)
 				}
@@ -94,6 +104,7 @@ export const processHistoryMessage = (item: proto.IHistorySync) => {
 		chats,
 		contacts,
 		messages,
+		labelAssociations,
 		syncType: item.syncType,
 		progress: item.progress
 	}
@@ -12,6 +12,12 @@ export * from './lt-hash'
 export * from './auth-utils'
 export * from './baileys-event-stream'
 export * from './use-multi-file-auth-state'
+export * from './use-sqlite-auth-state'
+export * from './encrypted-auth-state'
+export * from './auth-state-archive'
+export * from './message-queue-store'
+export * from './delivery-tracker'
 export * from './link-preview'
 export * from './event-buffer'
 export * from './process-message'
+export * from './business'
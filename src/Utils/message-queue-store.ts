@@ -0,0 +1,54 @@
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { MessageQueueStore, QueuedMessage } from '../Types'
+import { BufferJSON } from './generics'
+
+/** keeps pending messages in memory, they're lost on restart */
+export const makeInMemoryMessageQueueStore = (): MessageQueueStore => {
+	const items = new Map<string, QueuedMessage>()
+	return {
+		load: () => Array.from(items.values()),
+		save: item => {
+			items.set(item.id, item)
+		},
+		remove: id => {
+			items.delete(id)
+		}
+	}
+}
+
+/**
+ * keeps every pending message in its own file in the given folder,
+ * so a crash while writing can only affect a single message
+ *
+ * Media must be passed as a buffer or URL to survive a restart, streams cannot be stored
+ */
+export const makeFileMessageQueueStore = async(folder: string): Promise<MessageQueueStore> => {
+	await mkdir(folder, { recursive: true })
+
+	const fileFor = (id: string) => join(folder, `${id.replace(/[\/:]/g, '_')}.json`)
+
+	return {
+		load: async() => {
+			const items: QueuedMessage[] = []
+			for(const file of await readdir(folder)) {
+				if(file.endsWith('.json')) {
+					const data = await readFile(join(folder, file), { encoding: 'utf-8' })
+					items.push(JSON.parse(data, BufferJSON.reviver))
+				}
+			}
+
+			return items
+		},
+		save: async(item) => {
+			// write to a temp file first, so the item is never left half written
+			const path = fileFor(item.id)
+			await writeFile(`${path}.tmp`, JSON.stringify(item, BufferJSON.replacer))
+			await rename(`${path}.tmp`, path)
+		},
+		remove: async(id) => {
+			await unlink(fileFor(id))
+				.catch(() => { })
+		}
+	}
+}
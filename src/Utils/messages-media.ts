@@ -246,6 +246,61 @@ type EncryptedStreamOptions = {
 	opts?: AxiosRequestConfig
 }
 
+/**
+ * saves the media to a tmp file & hashes it, without encrypting it.
+ * Used for newsletter posts, whose media is uploaded as is
+ */
+export const getRawMediaUploadData = async(
+	media: WAMediaUpload,
+	mediaType: MediaType,
+	{ logger, opts }: Omit<EncryptedStreamOptions, 'saveOriginalFileIfRequired'> = {}
+) => {
+	const { stream } = await getStream(media, opts)
+
+	logger?.debug('fetched media stream')
+
+	const filePath = join(getTmpFilesDirectory(), mediaType + generateMessageID())
+	const fileWriteStream = createWriteStream(filePath)
+	const hasher = Crypto.createHash('sha256')
+	let fileLength = 0
+
+	try {
+		for await (const data of stream) {
+			fileLength += data.length
+			if(opts?.maxContentLength && fileLength > opts.maxContentLength) {
+				throw new Boom('content length exceeded when saving media', { data: { media } })
+			}
+
+			hasher.update(data)
+			if(!fileWriteStream.write(data)) {
+				await once(fileWriteStream, 'drain')
+			}
+		}
+
+		fileWriteStream.end()
+		await once(fileWriteStream, 'finish')
+		stream.destroy()
+
+		logger?.debug('saved media to tmp file')
+
+		return {
+			filePath,
+			fileSha256: hasher.digest(),
+			fileLength
+		}
+	} catch(error) {
+		fileWriteStream.destroy()
+		stream.destroy()
+		try {
+			await fs.unlink(filePath)
+		} catch(err) {
+			logger?.error({ err }, 'failed to remove tmp file')
+		}
+
+		throw error
+	}
+}
+
 export const encryptedStream = async(
 	media: WAMediaUpload,
 	mediaType: MediaType,
@@ -502,20 +557,26 @@ export const getWAUploadToServer = (
 	{ customUploadHosts, fetchAgent, logger, options }: SocketConfig,
 	refreshMediaConn: (force: boolean) => Promise<MediaConnInfo>,
 ): WAMediaUploadFunction => {
-	return async(stream, { mediaType, fileEncSha256B64, timeoutMs }) => {
+	return async(stream, { mediaType, fileEncSha256B64, timeoutMs, newsletter }) => {
 		// send a query JSON to obtain the url & auth token to upload our media
 		let uploadInfo = await refreshMediaConn(false)
 
-		let urls: { mediaUrl: string, directPath: string } | undefined
+		let urls: Awaited<ReturnType<WAMediaUploadFunction>> | undefined
 		const hosts = [ ...customUploadHosts, ...uploadInfo.hosts ]
 
 		fileEncSha256B64 = encodeBase64EncodedStringForUpload(fileEncSha256B64)
 
+		let mediaPath = MEDIA_PATH_MAP[mediaType]
+		if(newsletter) {
+			// eg. /mms/image -> /newsletter/newsletter-image
+			mediaPath = mediaPath?.replace('/mms/', '/newsletter/newsletter-')
+		}
+
 		for(const { hostname } of hosts) {
 			logger.debug(`uploading to "${hostname}"`)
 
 			const auth = encodeURIComponent(uploadInfo.auth) // the auth token
-			const url = `https://${hostname}${MEDIA_PATH_MAP[mediaType]}/${fileEncSha256B64}?auth=${auth}&token=${fileEncSha256B64}`
+			const url = `https://${hostname}${mediaPath}/${fileEncSha256B64}?auth=${auth}&token=${fileEncSha256B64}`
 			// eslint-disable-next-line @typescript-eslint/no-explicit-any
 			let result: any
 			try {
@@ -542,7 +603,8 @@ export const getWAUploadToServer = (
 				if(result?.url || result?.directPath) {
 					urls = {
 						mediaUrl: result.url,
-						directPath: result.direct_path
+						directPath: result.direct_path,
+						handle: result.handle
 					}
 					break
 				} else {
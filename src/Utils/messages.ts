@@ -1,14 +1,18 @@
 import { Boom } from '@hapi/boom'
 import axios from 'axios'
 import { randomBytes } from 'crypto'
-import { promises as fs } from 'fs'
+import { createReadStream, promises as fs } from 'fs'
 import { type Transform } from 'stream'
 import { proto } from '../../WAProto'
 import { MEDIA_KEYS, URL_REGEX, WA_DEFAULT_EPHEMERAL } from '../Defaults'
 import {
+	AlbumMediaContent,
+	AlbumSendOptions,
 	AnyMediaMessageContent,
 	AnyMessageContent,
 	DownloadableMessage,
+	EventResponseTally,
+	InteractiveButton,
 	MediaGenerationOptions,
 	MediaType,
 	MessageContentGenerationOptions,
@@ -19,15 +23,16 @@ import {
 	WAMediaUpload,
 	WAMessage,
 	WAMessageContent,
+	WAMessageKey,
 	WAMessageStatus,
 	WAProto,
 	WATextMessage,
 } from '../Types'
-import { isJidGroup, isJidStatusBroadcast, jidNormalizedUser } from '../WABinary'
+import { isJidGroup, isJidNewsletter, isJidStatusBroadcast, jidNormalizedUser } from '../WABinary'
 import { sha256 } from './crypto'
-import { generateMessageID, getKeyAuthor, unixTimestampSeconds } from './generics'
+import { generateMessageID, getKeyAuthor, mapWithConcurrency, unixTimestampSeconds } from './generics'
 import { ILogger } from './logger'
-import { downloadContentFromMessage, encryptedStream, generateThumbnail, getAudioDuration, MediaDownloadOptions } from './messages-media'
+import { downloadContentFromMessage, encryptedStream, generateThumbnail, getAudioDuration, getRawMediaUploadData, MediaDownloadOptions } from './messages-media'
 
 type MediaUploadData = {
 	media: WAMediaUpload
@@ -119,10 +124,12 @@ export const prepareWAMessageMedia = async(
 	}
 	delete uploadData[mediaType]
 	// check if cacheable + generate cache key
+	// newsletter posts need the handle of their upload, which isn't cached
 	const cacheableKey = typeof uploadData.media === 'object' &&
 			('url' in uploadData.media) &&
 			!!uploadData.media.url &&
-			!!options.mediaCache && (
+			!!options.mediaCache &&
+			!options.newsletter && (
 	// generate the key
 		mediaType + ':' + uploadData.media.url.toString()
 	)
@@ -155,6 +162,93 @@ export const prepareWAMessageMedia = async(
 										(typeof uploadData['jpegThumbnail'] === 'undefined')
 	const requiresAudioBackground = options.backgroundColor && mediaType === 'audio' && uploadData.ptt === true
 	const requiresOriginalForSomeProcessing = requiresDurationComputation || requiresThumbnailComputation
+
+	/** computes the thumbnail, duration & background the message needs from the original file */
+	const addExtraInfo = async(bodyPath: string | undefined) => {
+		try {
+			if(requiresThumbnailComputation) {
+				const {
+					thumbnail,
+					originalImageDimensions
+				} = await generateThumbnail(bodyPath!, mediaType as 'image' | 'video', options)
+				uploadData.jpegThumbnail = thumbnail
+				if(!uploadData.width && originalImageDimensions) {
+					uploadData.width = originalImageDimensions.width
+					uploadData.height = originalImageDimensions.height
+					logger?.debug('set dimensions')
+				}
+
+				logger?.debug('generated thumbnail')
+			}
+
+			if(requiresDurationComputation) {
+				uploadData.seconds = await getAudioDuration(bodyPath!)
+				logger?.debug('computed audio duration')
+			}
+
+			if(requiresAudioBackground) {
+				uploadData.backgroundArgb = await assertColor(options.backgroundColor)
+				logger?.debug('computed backgroundColor audio status')
+			}
+		} catch(error) {
+			logger?.warn({ trace: error.stack }, 'failed to obtain extra info')
+		}
+	}
+
+	if(options.newsletter) {
+		const { filePath, fileSha256, fileLength } = await getRawMediaUploadData(
+			uploadData.media,
+			options.mediaTypeOverride || mediaType,
+			{ logger, opts: options.options }
+		)
+		const [{ mediaUrl, directPath }] = await Promise.all([
+			(async() => {
+				const result = await options.upload(
+					createReadStream(filePath),
+					{
+						fileEncSha256B64: fileSha256.toString('base64'),
+						mediaType,
+						timeoutMs: options.mediaUploadTimeoutMs,
+						newsletter: true
+					}
+				)
+				logger?.debug({ mediaType }, 'uploaded newsletter media')
+				return result
+			})(),
+			addExtraInfo(filePath)
+		])
+			.finally(
+				async() => {
+					try {
+						await fs.unlink(filePath)
+						logger?.debug('removed tmp file')
+					} catch(error) {
+						logger?.warn('failed to remove tmp file')
+					}
+				}
+			)
+
+		const obj = WAProto.Message.fromObject({
+			[`${mediaType}Message`]: MessageTypeProto[mediaType].fromObject(
+				{
+					url: mediaUrl,
+					directPath,
+					fileSha256,
+					fileLength,
+					...uploadData,
+					media: undefined
+				}
+			)
+		})
+
+		if(uploadData.ptv) {
+			obj.ptvMessage = obj.videoMessage
+			delete obj.videoMessage
+		}
+
+		return obj
+	}
+
 	const {
 		mediaKey,
 		encWriteStream,
@@ -183,36 +277,7 @@ export const prepareWAMessageMedia = async(
 			logger?.debug({ mediaType, cacheableKey }, 'uploaded media')
 			return result
 		})(),
-		(async() => {
-			try {
-				if(requiresThumbnailComputation) {
-					const {
-						thumbnail,
-						originalImageDimensions
-					} = await generateThumbnail(bodyPath!, mediaType as 'image' | 'video', options)
-					uploadData.jpegThumbnail = thumbnail
-					if(!uploadData.width && originalImageDimensions) {
-						uploadData.width = originalImageDimensions.width
-						uploadData.height = originalImageDimensions.height
-						logger?.debug('set dimensions')
-					}
-
-					logger?.debug('generated thumbnail')
-				}
-
-				if(requiresDurationComputation) {
-					uploadData.seconds = await getAudioDuration(bodyPath!)
-					logger?.debug('computed audio duration')
-				}
-
-				if(requiresAudioBackground) {
-					uploadData.backgroundArgb = await assertColor(options.backgroundColor)
-					logger?.debug('computed backgroundColor audio status')
-				}
-			} catch(error) {
-				logger?.warn({ trace: error.stack }, 'failed to obtain extra info')
-			}
-		})(),
+		addExtraInfo(bodyPath),
 	])
 		.finally(
 			async() => {
@@ -312,6 +377,19 @@ export const generateForwardMessageContent = (
 	return content
 }
 
+const toNativeFlowButton = (button: InteractiveButton): proto.Message.InteractiveMessage.NativeFlowMessage.INativeFlowButton => {
+	switch (button.type) {
+	case 'quick_reply':
+		return { name: 'quick_reply', buttonParamsJson: JSON.stringify({ 'display_text': button.displayText, id: button.id }) }
+	case 'url':
+		return { name: 'cta_url', buttonParamsJson: JSON.stringify({ 'display_text': button.displayText, url: button.url, 'merchant_url': button.url }) }
+	case 'call':
+		return { name: 'cta_call', buttonParamsJson: JSON.stringify({ 'display_text': button.displayText, 'phone_number': button.phoneNumber }) }
+	case 'copy_code':
+		return { name: 'cta_copy', buttonParamsJson: JSON.stringify({ 'display_text': button.displayText, 'copy_code': button.code }) }
+	}
+}
+
 export const generateWAMessageContent = async(
 	message: AnyMessageContent,
 	options: MessageContentGenerationOptions
@@ -452,6 +530,22 @@ export const generateWAMessageContent = async(
 		})
 	} else if('listReply' in message) {
 		m.listResponseMessage = { ...message.listReply }
+	} else if('interactive' in message) {
+		const { body, footer, title, subtitle, media, buttons } = message.interactive
+		m.interactiveMessage = {
+			header: {
+				title,
+				subtitle,
+				hasMediaAttachment: !!media,
+				...(media ? await prepareWAMessageMedia(media, options) : { })
+			},
+			body: { text: body },
+			footer: footer ? { text: footer } : undefined,
+			nativeFlowMessage: {
+				buttons: buttons.map(toNativeFlowButton),
+				messageVersion: 1
+			}
+		}
 	} else if('poll' in message) {
 		message.poll.selectableCount ||= 0
 		message.poll.toAnnouncementGroup ||= false
@@ -493,6 +587,26 @@ export const generateWAMessageContent = async(
 				m.pollCreationMessage = pollCreationMessage
 			}
 		}
+	} else if('event' in message) {
+		const { event } = message
+		m.messageContextInfo = {
+			messageSecret: event.messageSecret || randomBytes(32),
+		}
+		m.eventMessage = {
+			name: event.name,
+			description: event.description,
+			location: event.location,
+			joinLink: event.joinLink,
+			startTime: unixTimestampSeconds(event.startTime),
+			endTime: event.endTime ? unixTimestampSeconds(event.endTime) : undefined,
+			extraGuestsAllowed: event.extraGuestsAllowed
+		}
+	} else if('album' in message) {
+		// the items are sent after the album, associated with it
+		m.albumMessage = {
+			expectedImageCount: message.album.filter(item => 'image' in item).length,
+			expectedVideoCount: message.album.filter(item => 'video' in item).length
+		}
 	} else if('sharePhoneNumber' in message) {
 		m.protocolMessage = {
 			type: proto.Message.ProtocolMessage.Type.SHARE_PHONE_NUMBER
@@ -506,6 +620,65 @@ export const generateWAMessageContent = async(
 		)
 	}
 
+	if('buttons' in message && !!message.buttons) {
+		const buttonsMessage: proto.Message.IButtonsMessage = {
+			buttons: message.buttons.map(({ id, displayText }) => ({
+				buttonId: id,
+				buttonText: { displayText },
+				type: proto.Message.ButtonsMessage.Button.Type.RESPONSE
+			}))
+		}
+		if('text' in message) {
+			buttonsMessage.contentText = message.text
+			buttonsMessage.headerType = proto.Message.ButtonsMessage.HeaderType.EMPTY
+		} else {
+			buttonsMessage.contentText = message.caption
+			// the media message becomes the header
+			const [mediaType] = Object.keys(m)
+			buttonsMessage.headerType = proto.Message.ButtonsMessage.HeaderType[
+				mediaType.replace('Message', '').toUpperCase() as keyof typeof proto.Message.ButtonsMessage.HeaderType
+			]
+			Object.assign(buttonsMessage, m)
+		}
+
+		buttonsMessage.footerText = message.footer
+		m = { buttonsMessage }
+	} else if('templateButtons' in message && !!message.templateButtons) {
+		const template: proto.Message.TemplateMessage.IHydratedFourRowTemplate = {
+			hydratedButtons: message.templateButtons.map((button, index) => ({
+				index,
+				...(button.type === 'quick_reply'
+					? { quickReplyButton: { displayText: button.displayText, id: button.id } }
+					: button.type === 'url'
+						? { urlButton: { displayText: button.displayText, url: button.url } }
+						: { callButton: { displayText: button.displayText, phoneNumber: button.phoneNumber } })
+			})),
+			hydratedFooterText: message.footer
+		}
+		if('text' in message) {
+			template.hydratedContentText = message.text
+		} else {
+			template.hydratedContentText = message.caption
+			Object.assign(template, m)
+		}
+
+		m = { templateMessage: { hydratedTemplate: template } }
+	} else if('sections' in message && !!message.sections) {
+		m = {
+			listMessage: {
+				title: message.title,
+				description: message.text,
+				buttonText: message.buttonText,
+				footerText: message.footer,
+				listType: proto.Message.ListMessage.ListType.SINGLE_SELECT,
+				sections: message.sections.map(({ title, rows }) => ({
+					title,
+					rows: rows.map(({ id, title, description }) => ({ rowId: id, title, description }))
+				}))
+			}
+		}
+	}
+
 	if('viewOnce' in message && !!message.viewOnce) {
 		m = { viewOnceMessage: { message: m } }
 	}
@@ -622,12 +795,44 @@ export const generateWAMessage = async(
 		jid,
 		await generateWAMessageContent(
 			content,
-			options
+			{ ...options, newsletter: options.newsletter || isJidNewsletter(jid) }
 		),
 		options
 	)
 }
 
+/**
+ * generates the messages of an album's items, uploading their media concurrently
+ * @param parentKey key of the album message
+ */
+export const generateAlbumItemMessages = async(
+	jid: string,
+	parentKey: WAMessageKey,
+	items: AlbumMediaContent[],
+	options: MessageGenerationOptions & Pick<AlbumSendOptions, 'uploadConcurrency' | 'itemMessageIds'>
+) => {
+	const { uploadConcurrency = 3, itemMessageIds } = options
+	return mapWithConcurrency(
+		items,
+		uploadConcurrency,
+		async(item, idx) => {
+			const content: WAMessageContent = await prepareWAMessageMedia(item, options)
+			content.messageContextInfo = {
+				messageAssociation: {
+					associationType: proto.MessageAssociation.AssociationType.MEDIA_ALBUM,
+					parentMessageKey: parentKey
+				}
+			}
+			// only the album itself quotes a message
+			return generateWAMessageFromContent(
+				jid,
+				content,
+				{ ...options, quoted: undefined, messageId: itemMessageIds?.[idx] || generateMessageID() }
+			)
+		}
+	)
+}
+
 /** Get the key to access the true type of content */
 export const getContentType = (content: WAProto.IMessage | undefined) => {
 	if(content) {
@@ -817,6 +1022,49 @@ export function getAggregateVotesInPollMessage(
 	return Object.values(voteHashMap)
 }
 
+/** Update the message with a new event response, replacing the responder's previous one */
+export const updateMessageWithEventResponse = (
+	msg: Pick<WAMessage, 'eventResponses'>,
+	response: proto.IEventResponse
+) => {
+	const authorID = getKeyAuthor(response.eventResponseMessageKey)
+
+	const responses = (msg.eventResponses || [])
+		.filter(r => getKeyAuthor(r.eventResponseMessageKey) !== authorID)
+	responses.push(response)
+
+	msg.eventResponses = responses
+}
+
+/**
+ * Aggregates all responses to an event.
+ * @param msg the event creation message
+ * @param meId your jid
+ * @returns the users going, not going & maybe going
+ */
+export function getAggregateResponsesInEventMessage(
+	{ eventResponses }: Pick<WAMessage, 'eventResponses'>,
+	meId?: string
+) {
+	const tally: EventResponseTally = { going: [], notGoing: [], maybe: [] }
+	for(const { eventResponseMessageKey, eventResponseMessage } of eventResponses || []) {
+		const author = getKeyAuthor(eventResponseMessageKey, meId)
+		switch (eventResponseMessage?.response) {
+		case proto.Message.EventResponseMessage.EventResponseType.GOING:
+			tally.going.push(author)
+			break
+		case proto.Message.EventResponseMessage.EventResponseType.NOT_GOING:
+			tally.notGoing.push(author)
+			break
+		case proto.Message.EventResponseMessage.EventResponseType.MAYBE:
+			tally.maybe.push(author)
+			break
+		}
+	}
+
+	return tally
+}
+
 /** Given a list of message keys, aggregates them by chat & sender. Useful for sending read receipts in bulk */
 export const aggregateMessageKeysNotFromMe = (keys: proto.IMessageKey[]) => {
 	const keyMap: { [id: string]: { jid: string, participant: string | undefined, messageIds: string[] } } = { }
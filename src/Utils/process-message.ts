@@ -1,21 +1,25 @@
 import { AxiosRequestConfig } from 'axios'
 import { proto } from '../../WAProto'
-import { AuthenticationCreds, BaileysEventEmitter, CacheStore, Chat, GroupMetadata, ParticipantAction, RequestJoinAction, RequestJoinMethod, SignalKeyStoreWithTransaction, WAMessageStubType } from '../Types'
-import { getContentType, normalizeMessageContent } from '../Utils/messages'
+import { AuthenticationCreds, BaileysEventEmitter, CacheStore, Chat, GroupMetadata, ParticipantAction, RequestJoinAction, RequestJoinMethod, SignalKeyStoreWithTransaction, SocketConfig, WAMessage, WAMessageStubType } from '../Types'
+import { getAggregateResponsesInEventMessage, getAggregateVotesInPollMessage, getContentType, normalizeMessageContent, updateMessageWithEventResponse, updateMessageWithPollUpdate } from '../Utils/messages'
 import { areJidsSameUser, isJidBroadcast, isJidStatusBroadcast, jidNormalizedUser } from '../WABinary'
 import { aesDecryptGCM, hmacSign } from './crypto'
-import { toNumber } from './generics'
+import { getKeyAuthor, toNumber } from './generics'
 import { downloadAndProcessHistorySyncNotification } from './history'
 import { ILogger } from './logger'
 
 type ProcessMessageContext = {
 	shouldProcessHistoryMsg: boolean
 	placeholderResendCache?: CacheStore
+	pollCache?: CacheStore
+	getMessage?: SocketConfig['getMessage']
 	creds: AuthenticationCreds
 	keyStore: SignalKeyStoreWithTransaction
 	ev: BaileysEventEmitter
 	logger?: ILogger
 	options: AxiosRequestConfig<{}>
+	/** receives the messages of a history sync the phone sent in reply to one of our requests */
+	onRequestedHistory?: (requestId: string, messages: WAMessage[]) => void
 }
 
 const REAL_MSG_STUB_TYPES = new Set([
@@ -44,6 +48,10 @@ export const cleanMessage = (message: proto.IWebMessageInfo, meId: string) => {
 		normaliseKey(content.pollUpdateMessage.pollCreationMessageKey!)
 	}
 
+	if(content?.encEventResponseMessage) {
+		normaliseKey(content.encEventResponseMessage.eventCreationMessageKey!)
+	}
+
 	function normaliseKey(msgKey: proto.IMessageKey) {
 		// if the reaction is from another user
 		// we've to correctly map the key to this user's perspective
@@ -78,6 +86,7 @@ export const isRealMessage = (message: proto.IWebMessageInfo, meId: string) => {
 	&& !normalizedContent?.protocolMessage
 	&& !normalizedContent?.reactionMessage
 	&& !normalizedContent?.pollUpdateMessage
+	&& !normalizedContent?.encEventResponseMessage
 }
 
 export const shouldIncrementChatUnread = (message: proto.IWebMessageInfo) => (
@@ -100,6 +109,42 @@ export const getChatId = ({ remoteJid, participant, fromMe }: proto.IMessageKey)
 	return remoteJid!
 }
 
+/** a poll creation message & the votes received on it */
+type CachedPoll = {
+	message: proto.IMessage
+	pollUpdates: proto.IPollUpdate[]
+	/** the poll was fetched with `getMessage`, so the votes cast before then are missing */
+	isPartial?: boolean
+}
+
+/** an event creation message & the responses received on it */
+type CachedEvent = {
+	message: proto.IMessage
+	eventResponses: proto.IEventResponse[]
+	/** the event was fetched with `getMessage`, so the responses received before then are missing */
+	isPartial?: boolean
+}
+
+const getPollCreation = (message: proto.IMessage | null | undefined) => (
+	message?.pollCreationMessage || message?.pollCreationMessageV2 || message?.pollCreationMessageV3
+)
+
+/** caches a poll, so votes on it can be decrypted without fetching it */
+export const cachePollMessage = (pollCache: CacheStore, id: string, message: proto.IMessage) => {
+	const content = normalizeMessageContent(message)
+	if(getPollCreation(content) && !pollCache.get<CachedPoll>(id)) {
+		pollCache.set<CachedPoll>(id, { message: content!, pollUpdates: [] })
+	}
+}
+
+/** caches an event, so responses to it can be decrypted without fetching it */
+export const cacheEventMessage = (pollCache: CacheStore, id: string, message: proto.IMessage) => {
+	const content = normalizeMessageContent(message)
+	if(content?.eventMessage && !pollCache.get<CachedEvent>(id)) {
+		pollCache.set<CachedEvent>(id, { message: content, eventResponses: [] })
+	}
+}
+
 type PollContext = {
 	/** normalised jid of the person that created the poll */
 	pollCreatorJid: string
@@ -126,22 +171,77 @@ export function decryptPollVote(
 		voterJid,
 	}: PollContext
 ) {
+	const decrypted = decryptWithMessageSecret(
+		{ encPayload, encIv },
+		pollMsgId,
+		pollCreatorJid,
+		pollEncKey,
+		voterJid,
+		'Poll Vote'
+	)
+	return proto.Message.PollVoteMessage.decode(decrypted)
+}
+
+type EventResponseContext = {
+	/** normalised jid of the person that created the event */
+	eventCreatorJid: string
+	/** ID of the event creation message */
+	eventMsgId: string
+	/** event creation message enc key */
+	eventEncKey: Uint8Array
+	/** jid of the person that responded */
+	responderJid: string
+}
+
+/**
+ * Decrypt a response to an event
+ * @param response encrypted response
+ * @param ctx additional info about the event required for decryption
+ */
+export function decryptEventResponse(
+	{ encPayload, encIv }: proto.Message.IEncEventResponseMessage,
+	{
+		eventCreatorJid,
+		eventMsgId,
+		eventEncKey,
+		responderJid,
+	}: EventResponseContext
+) {
+	const decrypted = decryptWithMessageSecret(
+		{ encPayload, encIv },
+		eventMsgId,
+		eventCreatorJid,
+		eventEncKey,
+		responderJid,
+		'Event Response'
+	)
+	return proto.Message.EventResponseMessage.decode(decrypted)
+}
+
+/** decrypts an add-on (vote, response) to a message, with the message's secret */
+const decryptWithMessageSecret = (
+	{ encPayload, encIv }: { encPayload?: Uint8Array | null, encIv?: Uint8Array | null },
+	msgId: string,
+	creatorJid: string,
+	secret: Uint8Array,
+	senderJid: string,
+	modificationType: string
+) => {
 	const sign = Buffer.concat(
 		[
-			toBinary(pollMsgId),
-			toBinary(pollCreatorJid),
-			toBinary(voterJid),
-			toBinary('Poll Vote'),
+			toBinary(msgId),
+			toBinary(creatorJid),
+			toBinary(senderJid),
+			toBinary(modificationType),
 			new Uint8Array([1])
 		]
 	)
 
-	const key0 = hmacSign(pollEncKey, new Uint8Array(32), 'sha256')
+	const key0 = hmacSign(secret, new Uint8Array(32), 'sha256')
 	const decKey = hmacSign(sign, key0, 'sha256')
-	const aad = toBinary(`${pollMsgId}\u0000${voterJid}`)
+	const aad = toBinary(`${msgId}\u0000${senderJid}`)
 
-	const decrypted = aesDecryptGCM(encPayload!, decKey, encIv!, aad)
-	return proto.Message.PollVoteMessage.decode(decrypted)
+	return aesDecryptGCM(encPayload!, decKey, encIv!, aad)
 
 	function toBinary(txt: string) {
 		return Buffer.from(txt)
@@ -153,11 +253,14 @@ const processMessage = async(
 	{
 		shouldProcessHistoryMsg,
 		placeholderResendCache,
+		pollCache,
+		getMessage,
 		ev,
 		creds,
 		keyStore,
 		logger,
-		options
+		options,
+		onRequestedHistory
 	}: ProcessMessageContext
 ) => {
 	const meId = creds.me!.id
@@ -187,6 +290,11 @@ const processMessage = async(
 		chat.readOnly = false
 	}
 
+	if(pollCache && message.key.id && content) {
+		cachePollMessage(pollCache, message.key.id, content)
+		cacheEventMessage(pollCache, message.key.id, content)
+	}
+
 	const protocolMsg = content?.protocolMessage
 	if(protocolMsg) {
 		switch (protocolMsg.type) {
@@ -212,7 +320,7 @@ const processMessage = async(
 					})
 				}
 
-				const data = await downloadAndProcessHistorySyncNotification(
+				const { labelAssociations, ...data } = await downloadAndProcessHistorySyncNotification(
 					histNotification,
 					options
 				)
@@ -225,6 +333,15 @@ const processMessage = async(
 							: undefined,
 					peerDataRequestSessionId: histNotification.peerDataRequestSessionId
 				})
+
+				for(const association of labelAssociations) {
+					ev.emit('labels.association', { association, type: 'add' })
+				}
+
+				// the emitted set may be buffered & merged, so hand the requester these messages directly
+				if(histNotification.peerDataRequestSessionId) {
+					onRequestedHistory?.(histNotification.peerDataRequestSessionId, data.messages)
+				}
 			}
 
 			break
@@ -277,7 +394,6 @@ const processMessage = async(
 		case proto.Message.ProtocolMessage.Type.PEER_DATA_OPERATION_REQUEST_RESPONSE_MESSAGE:
 			const response = protocolMsg.peerDataOperationRequestResponseMessage!
 			if(response) {
-				placeholderResendCache?.del(response.stanzaId!)
 				// TODO: IMPLEMENT HISTORY SYNC ETC (sticker uploads etc.).
 				const { peerDataOperationResult } = response
 				for(const result of peerDataOperationResult!) {
@@ -285,6 +401,7 @@ const processMessage = async(
 					//eslint-disable-next-line max-depth
 					if(retryResponse) {
 						const webMessageInfo = proto.WebMessageInfo.decode(retryResponse.webMessageInfoBytes!)
+						placeholderResendCache?.del(webMessageInfo.key.id!)
 						// wait till another upsert event is available, don't want it to be part of the PDO response message
 						setTimeout(() => {
 							ev.emit('messages.upsert', {
@@ -297,6 +414,7 @@ const processMessage = async(
 				}
 			}
 
+			break
 		case proto.Message.ProtocolMessage.Type.MESSAGE_EDIT:
 			ev.emit(
 				'messages.update',
@@ -334,6 +452,13 @@ const processMessage = async(
 			ev.emit('group.join-request', { id: jid, author: message.participant!, participant, action, method: method! })
 		}
 
+		const emitCommunityLinkUpdate = (communityJid: string, group: string) => {
+			const isLink = message.messageStubType === WAMessageStubType.COMMUNITY_LINK_SUB_GROUP
+				|| message.messageStubType === WAMessageStubType.COMMUNITY_LINK_PARENT_GROUP
+			ev.emit('community.link-update', { id: communityJid, author: message.participant!, group, action: isLink ? 'link' : 'unlink' })
+			ev.emit('groups.update', [{ id: group, linkedParent: isLink ? communityJid : undefined, author: message.participant ?? undefined }])
+		}
+
 		const participantsIncludesMe = () => participants.find(jid => areJidsSameUser(meId, jid))
 
 		switch (message.messageStubType) {
@@ -405,19 +530,41 @@ const processMessage = async(
 			const method = message.messageStubParameters?.[2] as RequestJoinMethod
 			emitGroupRequestJoin(participant, action, method)
 			break
+		case WAMessageStubType.COMMUNITY_LINK_SUB_GROUP:
+		case WAMessageStubType.COMMUNITY_UNLINK_SUB_GROUP:
+			emitCommunityLinkUpdate(jid, message.messageStubParameters![0])
+			break
+		case WAMessageStubType.COMMUNITY_LINK_PARENT_GROUP:
+		case WAMessageStubType.COMMUNITY_UNLINK_PARENT_GROUP:
+			emitCommunityLinkUpdate(message.messageStubParameters![0], jid)
+			break
 		}
 
-	} /*  else if(content?.pollUpdateMessage) {
+	} else if(content?.reactionMessage) {
+		const reaction: proto.IReaction = {
+			...content.reactionMessage,
+			key: message.key,
+		}
+		ev.emit('messages.reaction', [{
+			key: content.reactionMessage.key!,
+			reaction
+		}])
+	} else if(content?.pollUpdateMessage) {
 		const creationMsgKey = content.pollUpdateMessage.pollCreationMessageKey!
-		// we need to fetch the poll creation message to get the poll enc key
-		// TODO: make standalone, remove getMessage reference
-		// TODO: Remove entirely
-		const pollMsg = await getMessage(creationMsgKey)
-		if(pollMsg) {
+		// we need the poll creation message to get the poll enc key
+		let poll = pollCache?.get<CachedPoll>(creationMsgKey.id!)
+		if(!poll) {
+			const pollMsg = normalizeMessageContent(await getMessage?.(creationMsgKey))
+			if(pollMsg) {
+				poll = { message: pollMsg, pollUpdates: [], isPartial: true }
+			}
+		}
+
+		const pollEncKey = poll?.message.messageContextInfo?.messageSecret
+		if(poll && pollEncKey) {
 			const meIdNormalised = jidNormalizedUser(meId)
 			const pollCreatorJid = getKeyAuthor(creationMsgKey, meIdNormalised)
 			const voterJid = getKeyAuthor(message.key, meIdNormalised)
-			const pollEncKey = pollMsg.messageContextInfo?.messageSecret!
 
 			try {
 				const voteMsg = decryptPollVote(
@@ -429,20 +576,26 @@ const processMessage = async(
 						voterJid,
 					}
 				)
+				const pollUpdate: proto.IPollUpdate = {
+					pollUpdateMessageKey: message.key,
+					vote: voteMsg,
+					senderTimestampMs: toNumber(content.pollUpdateMessage.senderTimestampMs),
+				}
 				ev.emit('messages.update', [
 					{
 						key: creationMsgKey,
-						update: {
-							pollUpdates: [
-								{
-									pollUpdateMessageKey: message.key,
-									vote: voteMsg,
-									senderTimestampMs: (content.pollUpdateMessage.senderTimestampMs! as Long).toNumber(),
-								}
-							]
-						}
+						update: { pollUpdates: [pollUpdate] }
 					}
 				])
+
+				updateMessageWithPollUpdate(poll, pollUpdate)
+				pollCache?.set<CachedPoll>(creationMsgKey.id!, poll)
+				ev.emit('poll-tally.update', {
+					key: creationMsgKey,
+					name: getPollCreation(poll.message)?.name || '',
+					votes: getAggregateVotesInPollMessage(poll, meIdNormalised),
+					isPartial: !!poll.isPartial
+				})
 			} catch(err) {
 				logger?.warn(
 					{ err, creationMsgKey },
@@ -455,7 +608,60 @@ const processMessage = async(
 				'poll creation message not found, cannot decrypt update'
 			)
 		}
-		} */
+	} else if(content?.encEventResponseMessage) {
+		const creationMsgKey = content.encEventResponseMessage.eventCreationMessageKey!
+		// we need the event creation message to get its enc key
+		let event = pollCache?.get<CachedEvent>(creationMsgKey.id!)
+		if(!event) {
+			const eventMsg = normalizeMessageContent(await getMessage?.(creationMsgKey))
+			if(eventMsg) {
+				event = { message: eventMsg, eventResponses: [], isPartial: true }
+			}
+		}
+
+		const eventEncKey = event?.message.messageContextInfo?.messageSecret
+		if(event && eventEncKey) {
+			const meIdNormalised = jidNormalizedUser(meId)
+			try {
+				const responseMsg = decryptEventResponse(
+					content.encEventResponseMessage,
+					{
+						eventEncKey,
+						eventCreatorJid: getKeyAuthor(creationMsgKey, meIdNormalised),
+						eventMsgId: creationMsgKey.id!,
+						responderJid: getKeyAuthor(message.key, meIdNormalised),
+					}
+				)
+				const eventResponse: proto.IEventResponse = {
+					eventResponseMessageKey: message.key,
+					eventResponseMessage: responseMsg,
+					timestampMs: toNumber(responseMsg.timestampMs),
+				}
+				updateMessageWithEventResponse(event, eventResponse)
+				pollCache?.set<CachedEvent>(creationMsgKey.id!, event)
+				ev.emit('messages.update', [
+					{
+						key: creationMsgKey,
+						update: { eventResponses: [eventResponse] },
+						eventResponseTally: {
+							...getAggregateResponsesInEventMessage(event, meIdNormalised),
+							isPartial: !!event.isPartial
+						}
+					}
+				])
+			} catch(err) {
+				logger?.warn(
+					{ err, creationMsgKey },
+					'failed to decrypt event response'
+				)
+			}
+		} else {
+			logger?.warn(
+				{ creationMsgKey },
+				'event creation message not found, cannot decrypt response'
+			)
+		}
+	}
 
 	if(Object.keys(chat).length > 1) {
 		ev.emit('chats.update', [chat])
@@ -1,7 +1,8 @@
 import { Mutex } from 'async-mutex'
-import { mkdir, readFile, stat, unlink, writeFile } from 'fs/promises'
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'fs/promises'
 import { join } from 'path'
 import { proto } from '../../WAProto'
+import { SIGNAL_DATA_TYPES } from '../Defaults'
 import { AuthenticationCreds, AuthenticationState, SignalDataTypeMap } from '../Types'
 import { initAuthCreds } from './auth-utils'
 import { BufferJSON } from './generics'
@@ -90,6 +91,8 @@ export const useMultiFileAuthState = async(folder: string): Promise<{ state: Aut
 	}
 
 	const fixFileName = (file?: string) => file?.replace(/\//g, '__')?.replace(/:/g, '-')
+	// only sender key names contain colons, always as a '::' separator
+	const unfixFileName = (file: string) => file.replace(/__/g, '/').replace(/--/g, '::')
 
 	const creds: AuthenticationCreds = await readData('creds.json') || initAuthCreds()
 
@@ -125,6 +128,21 @@ export const useMultiFileAuthState = async(folder: string): Promise<{ state: Aut
 					}
 
 					await Promise.all(tasks)
+				},
+				list: async(type) => {
+					const prefix = `${type}-`
+					// eg. "sender-key-memory-" files also start with "sender-key-"
+					const longerPrefixes = SIGNAL_DATA_TYPES
+						.filter(t => t !== type && t.startsWith(type))
+						.map(t => `${t}-`)
+					const files = await readdir(folder)
+					return files
+						.filter(file => (
+							file.startsWith(prefix)
+							&& file.endsWith('.json')
+							&& !longerPrefixes.some(p => file.startsWith(p))
+						))
+						.map(file => unfixFileName(file.slice(prefix.length, -'.json'.length)))
 				}
 			}
 		},
@@ -0,0 +1,98 @@
+import type BetterSqlite3 from 'better-sqlite3'
+import { proto } from '../../WAProto'
+import { AuthenticationCreds, AuthenticationState, SignalDataTypeMap } from '../Types'
+import { initAuthCreds } from './auth-utils'
+import { BufferJSON } from './generics'
+
+const CREDS_CATEGORY = 'creds'
+
+const loadSqlite = async() => {
+	const lib = await import('better-sqlite3').catch(() => undefined)
+	if(!lib) {
+		throw new Error('"better-sqlite3" is required to use the sqlite auth state, install it with `yarn add better-sqlite3`')
+	}
+
+	return lib.default
+}
+
+/**
+ * stores the full authentication state in a single SQLite database.
+ * Every `keys.set` call is written in a single transaction, so when used with
+ * `addTransactionCapability` (as the socket does) a commit is either fully persisted or not at all
+ *
+ * Requires the optional "better-sqlite3" dependency
+ * @param path path to the database file, created if it does not exist
+ * */
+export const useSqliteAuthState = async(path: string): Promise<{ state: AuthenticationState, saveCreds: () => Promise<void>, close: () => void }> => {
+	const Database = await loadSqlite()
+	const db: BetterSqlite3.Database = new Database(path)
+	db.pragma('journal_mode = WAL')
+	db.pragma('synchronous = NORMAL')
+	db.exec(
+		`CREATE TABLE IF NOT EXISTS auth (
+			category TEXT NOT NULL,
+			id TEXT NOT NULL,
+			value TEXT NOT NULL,
+			PRIMARY KEY (category, id)
+		) WITHOUT ROWID`
+	)
+
+	const selectStmt = db.prepare<[string, string], { value: string }>('SELECT value FROM auth WHERE category = ? AND id = ?')
+	const upsertStmt = db.prepare<[string, string, string]>(
+		'INSERT INTO auth (category, id, value) VALUES (?, ?, ?) ON CONFLICT (category, id) DO UPDATE SET value = excluded.value'
+	)
+	const deleteStmt = db.prepare<[string, string]>('DELETE FROM auth WHERE category = ? AND id = ?')
+	const listStmt = db.prepare<[string], { id: string }>('SELECT id FROM auth WHERE category = ?')
+
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	const readData = (category: string, id: string): any => {
+		const row = selectStmt.get(category, id)
+		return row ? JSON.parse(row.value, BufferJSON.reviver) : null
+	}
+
+	const writeMany = db.transaction((data: { [category: string]: { [id: string]: unknown } }) => {
+		for(const category in data) {
+			for(const id in data[category]) {
+				const value = data[category][id]
+				if(value) {
+					upsertStmt.run(category, id, JSON.stringify(value, BufferJSON.replacer))
+				} else {
+					deleteStmt.run(category, id)
+				}
+			}
+		}
+	})
+
+	const creds: AuthenticationCreds = readData(CREDS_CATEGORY, CREDS_CATEGORY) || initAuthCreds()
+
+	return {
+		state: {
+			creds,
+			keys: {
+				get: async(type, ids) => {
+					const data: { [_: string]: SignalDataTypeMap[typeof type] } = { }
+					for(const id of ids) {
+						let value = readData(type, id)
+						if(type === 'app-state-sync-key' && value) {
+							value = proto.Message.AppStateSyncKeyData.fromObject(value)
+						}
+
+						data[id] = value
+					}
+
+					return data
+				},
+				set: async(data) => {
+					writeMany(data)
+				},
+				list: async(type) => listStmt.all(type).map(row => row.id)
+			}
+		},
+		saveCreds: async() => {
+			writeMany({ [CREDS_CATEGORY]: { [CREDS_CATEGORY]: creds } })
+		},
+		close: () => {
+			db.close()
+		}
+	}
+}
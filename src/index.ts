@@ -6,6 +6,10 @@ export * from './Types'
 export * from './Defaults'
 export * from './WABinary'
 export * from './WAUSync'
+export * from './Store'
+export * from './Socket/Client'
+export * from './Socket/supervisor'
+export * from './Socket/message-queue'
 
 export type WASocket = ReturnType<typeof makeWASocket>
 export { makeWASocket }